@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { describeFormats } from "@/lib/api-config";
+import { formatFileSize } from "@/lib/image-preprocess";
+import {
+  clearInspections,
+  isHistoryAvailable,
+  listInspections,
+} from "@/lib/inspection-history";
+import { useAnalysis } from "@/components/analysis-provider";
+
+const CONFIG_SOURCE_LABELS = {
+  server: "Reported by the detection service",
+  cache: "Last known limits (service unreachable)",
+  defaults: "Built-in defaults (service unreachable)",
+};
+
+// Detection service status and the data stored in this browser
+export default function AdminPage() {
+  const {
+    providerName,
+    isConnected,
+    recheckConnection,
+    apiConfig,
+    configSource,
+  } = useAnalysis();
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+
+  // IndexedDB is only available after mount
+  useEffect(() => {
+    if (!isHistoryAvailable()) return;
+    listInspections()
+      .then((records) => setSavedCount(records.length))
+      .catch((error) => console.warn("Could not count saved inspections:", error));
+  }, []);
+
+  const deleteHistory = async () => {
+    try {
+      await clearInspections();
+      setSavedCount(0);
+    } catch (error) {
+      console.error("Could not delete inspection history:", error);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Detection service</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            <dt className="font-semibold">Source</dt>
+            <dd>{providerName}</dd>
+            <dt className="font-semibold">Status</dt>
+            <dd>
+              {isConnected === null
+                ? "Checking..."
+                : isConnected
+                ? "Connected"
+                : "Disconnected"}
+            </dd>
+            <dt className="font-semibold">Limits</dt>
+            <dd>{CONFIG_SOURCE_LABELS[configSource]}</dd>
+            <dt className="font-semibold">Formats</dt>
+            <dd>{describeFormats(apiConfig.supported_formats)}</dd>
+            <dt className="font-semibold">Max file size</dt>
+            <dd>{formatFileSize(apiConfig.max_file_size)}</dd>
+            <dt className="font-semibold">Persons per image</dt>
+            <dd>{apiConfig.max_persons_per_image}</dd>
+            <dt className="font-semibold">Confidence range</dt>
+            <dd>
+              {apiConfig.confidence_range.min} –{" "}
+              {apiConfig.confidence_range.max}%
+            </dd>
+          </dl>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isConnected === null}
+            onClick={recheckConnection}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Check connection
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Stored in this browser</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <p>
+            {savedCount === null
+              ? "Inspection history is not available."
+              : `${savedCount} saved ${
+                  savedCount === 1 ? "inspection" : "inspections"
+                } with their images.`}
+          </p>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={!savedCount}>
+                <Trash2 className="h-4 w-4" />
+                Delete all history
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete all saved inspections?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The images, results and details of {savedCount} inspections
+                  are removed from this browser. Reports already printed are
+                  not affected.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={deleteHistory}>
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <p className="text-xs text-gray-500">
+            Site profiles, compliance rules, zone sets and inspection defaults
+            are kept in local storage and managed under Settings and Detect.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { BatchDetection } from "@/components/batch-detection";
+import { useAnalysis } from "@/components/analysis-provider";
+
+// Many site photos at once, judged with the shared settings
+export default function BatchPage() {
+  const { thresholdRules, profile, ruleSet, isConnected, apiConfig } =
+    useAnalysis();
+  return (
+    <BatchDetection
+      thresholds={thresholdRules}
+      profile={profile}
+      ruleSet={ruleSet}
+      isConnected={isConnected}
+      config={apiConfig}
+    />
+  );
+}
@@ -0,0 +1,5 @@
+import { DetectionView } from "@/components/detection-view";
+
+export default function DetectPage() {
+  return <DetectionView />;
+}
@@ -0,0 +1,5 @@
+import { InspectionHistory } from "@/components/inspection-history";
+
+export default function HistoryPage() {
+  return <InspectionHistory />;
+}
@@ -0,0 +1,10 @@
+import { SavedInspectionView } from "@/components/saved-inspection-view";
+
+export default async function InspectionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <SavedInspectionView id={decodeURIComponent(id)} />;
+}
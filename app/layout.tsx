@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 import { GeistSans } from "geist/font/sans";
 import { GeistMono } from "geist/font/mono";
+import { AnalysisProvider } from "@/components/analysis-provider";
+import { AppShell } from "@/components/app-shell";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -25,7 +27,11 @@ html {
 }
         `}</style>
       </head>
-      <body>{children}</body>
+      <body>
+        <AnalysisProvider>
+          <AppShell>{children}</AppShell>
+        </AnalysisProvider>
+      </body>
     </html>
   );
 }
@@ -1,5 +1,5 @@
-import PPEDetectionApp from "../pages/ppe-detection-app";
+import { redirect } from "next/navigation";
 
 export default function Page() {
-  return <PPEDetectionApp />;
+  redirect("/detect");
 }
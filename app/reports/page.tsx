@@ -0,0 +1,203 @@
+"use client";
+
+import Link from "next/link";
+import { Download, FileText, Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ComplianceSummary } from "@/components/compliance-verdict";
+import { InspectionDetailsForm } from "@/components/inspection-details-form";
+import { APIErrorAlert } from "@/components/api-error-alert";
+import { RedactionRegionEditor } from "@/components/redaction-region-editor";
+import { useAnalysis } from "@/components/analysis-provider";
+import {
+  REDACTION_EXPORT_LABELS,
+  REDACTION_MODE_LABELS,
+  type RedactionExport,
+  type RedactionMode,
+} from "@/lib/redaction";
+
+// Report for the analysis on screen: complete its details and print it.
+// Reports of earlier analyses are regenerated from History.
+export default function ReportsPage() {
+  const {
+    uploadedFile,
+    uploadedImage,
+    evaluatedResults,
+    results,
+    excludedResults,
+    imageVerdict,
+    thresholdRules,
+    profile,
+    ruleSet,
+    inspection,
+    setInspection,
+    currentInspectionId,
+    redactionRegions,
+    setRedactionRegions,
+    exportRedaction,
+    setExportRedaction,
+    error,
+    printReport,
+    downloadImage,
+    downloadBundle,
+  } = useAnalysis();
+
+  if (results.length === 0) {
+    return (
+      <Card className="border-2 border-black">
+        <CardContent className="text-center py-12 text-gray-500">
+          No analysis to report on. Run a detection on the{" "}
+          <Link href="/detect" className="underline">
+            Detect
+          </Link>{" "}
+          page or open a past one from{" "}
+          <Link href="/history" className="underline">
+            History
+          </Link>
+          .
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Current analysis</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <ComplianceSummary imageVerdict={imageVerdict} />
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            <dt className="font-semibold">Image</dt>
+            <dd>{uploadedFile?.name ?? "—"}</dd>
+            <dt className="font-semibold">Site profile</dt>
+            <dd>{profile.name}</dd>
+            <dt className="font-semibold">Compliance rules</dt>
+            <dd>{ruleSet ? ruleSet.name : "None"}</dd>
+            <dt className="font-semibold">Thresholds</dt>
+            <dd>
+              Detected from {thresholdRules.default.detected}%, indeterminate
+              from {thresholdRules.default.indeterminate}%
+            </dd>
+            {excludedResults.length > 0 && (
+              <>
+                <dt className="font-semibold">Not assessed</dt>
+                <dd>{excludedResults.length} in exclusion zones</dd>
+              </>
+            )}
+          </dl>
+          {currentInspectionId && (
+            <Link
+              href={`/inspections/${currentInspectionId}`}
+              className="text-xs text-gray-500 underline"
+            >
+              Saved to history
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Inspection details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <InspectionDetailsForm
+            key={currentInspectionId ?? "new"}
+            details={inspection}
+            onChange={setInspection}
+          />
+          {error && <APIErrorAlert message={error.message} code={error.code} />}
+          <div className="text-right">
+            <Button
+              onClick={printReport}
+              className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold px-8 py-2"
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Print to PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Privacy</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {uploadedImage && (
+            <RedactionRegionEditor
+              imageSrc={uploadedImage}
+              results={evaluatedResults}
+              regions={redactionRegions}
+              onChange={setRedactionRegions}
+            />
+          )}
+          <div className="space-y-4 text-sm">
+            <p className="text-gray-600">
+              Faces and drawn regions are blurred or pixelated in the exported
+              image and person crops. The shared bundle is one JSON file with
+              the results, the images and the inspection details. The analysis
+              kept in history stays unredacted.
+            </p>
+            {(Object.keys(REDACTION_EXPORT_LABELS) as RedactionExport[]).map(
+              (kind) => (
+                <div key={kind} className="flex items-center gap-2">
+                  <Label htmlFor={`redaction-${kind}`} className="flex-1">
+                    {REDACTION_EXPORT_LABELS[kind]}
+                  </Label>
+                  <Select
+                    value={exportRedaction[kind]}
+                    onValueChange={(value) =>
+                      setExportRedaction(kind, value as RedactionMode)
+                    }
+                  >
+                    <SelectTrigger id={`redaction-${kind}`} className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(
+                        Object.keys(REDACTION_MODE_LABELS) as RedactionMode[]
+                      ).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {REDACTION_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )
+            )}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={downloadImage}
+                disabled={!uploadedImage}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download image
+              </Button>
+              <Button
+                variant="outline"
+                onClick={downloadBundle}
+                disabled={!uploadedImage}
+              >
+                <Package className="mr-2 h-4 w-4" />
+                Share bundle
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
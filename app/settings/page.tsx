@@ -0,0 +1,109 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DetectionProviderName } from "@/lib/api";
+import { ThresholdSettings } from "@/components/threshold-settings";
+import { RequirementProfileSettings } from "@/components/requirement-profile-settings";
+import { ComplianceRulesSettings } from "@/components/compliance-rules-settings";
+import { useAnalysis } from "@/components/analysis-provider";
+
+// Settings shared by single-image and batch detection
+export default function SettingsPage() {
+  const {
+    providerName,
+    changeProvider,
+    configSource,
+    apiConfig,
+    thresholdRules,
+    setThresholdRules,
+    profile,
+    selectProfile,
+    ruleSet,
+    applyRuleSet,
+  } = useAnalysis();
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Detection source</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex items-center space-x-4">
+            <Label htmlFor="provider" className="font-semibold">
+              Source
+            </Label>
+            <Select
+              value={providerName}
+              onValueChange={(value) =>
+                changeProvider(value as DetectionProviderName)
+              }
+            >
+              <SelectTrigger id="provider" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="http">Detection API (AWS)</SelectItem>
+                <SelectItem value="mock">Offline mock</SelectItem>
+                <SelectItem value="replay">
+                  Recorded Rekognition responses
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {configSource !== "server" && (
+            <p className="text-xs text-gray-500">
+              {configSource === "cache"
+                ? "Detection service unreachable: using the last known limits."
+                : "Detection service unreachable: using default limits."}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Changing the source clears the analysis on the Detect page.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Site requirement profile</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <RequirementProfileSettings profile={profile} onChange={selectProfile} />
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>Per-item thresholds and presets</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ThresholdSettings
+            rules={thresholdRules}
+            onChange={setThresholdRules}
+            config={apiConfig}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-black">
+        <CardHeader>
+          <CardTitle>
+            Compliance rules{ruleSet && ` (${ruleSet.name})`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ComplianceRulesSettings ruleSet={ruleSet} onChange={applyRuleSet} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { VideoAnalysis } from "@/components/video-analysis";
+import { useAnalysis } from "@/components/analysis-provider";
+
+// Frames sampled from a site video, judged with the shared settings
+export default function VideoPage() {
+  const {
+    thresholdRules,
+    profile,
+    ruleSet,
+    inspection,
+    isConnected,
+    exportRedaction,
+  } = useAnalysis();
+  return (
+    <VideoAnalysis
+      thresholds={thresholdRules}
+      profile={profile}
+      ruleSet={ruleSet}
+      inspection={inspection}
+      isConnected={isConnected}
+      redaction={exportRedaction.pdf}
+    />
+  );
+}
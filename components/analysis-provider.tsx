@@ -0,0 +1,782 @@
+"use client";
+
+import type React from "react";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ppeAPI,
+  APIError,
+  APIConfig,
+  APIErrorCode,
+  BoundingBox,
+  DetectionResult,
+  ThresholdRules,
+  DetectionProviderName,
+  validateImageFile,
+  fileToBase64,
+} from "@/lib/api";
+import {
+  applyThresholdRules,
+  getStatusChanges,
+  type StatusChange,
+} from "@/lib/thresholds";
+import { getImageVerdict, type ImageVerdict } from "@/lib/compliance";
+import {
+  DEFAULT_REQUIREMENT_PROFILE,
+  loadSelectedProfile,
+  storeSelectedProfile,
+  type RequirementProfile,
+} from "@/lib/requirement-profiles";
+import {
+  loadStoredRuleSet,
+  storeRuleSet,
+  type RuleSet,
+} from "@/lib/compliance-rules";
+import {
+  excludePersonsInZones,
+  getZoneNamesByPerson,
+  mergeZones,
+  type Zone,
+} from "@/lib/zones";
+import {
+  EMPTY_INSPECTION_DETAILS,
+  getInspectionErrors,
+  type InspectionDetails,
+} from "@/lib/inspection";
+import {
+  isHistoryAvailable,
+  saveInspection,
+  updateInspection,
+  type OpenedInspection,
+} from "@/lib/inspection-history";
+import { createThresholdRules } from "@/lib/threshold-rules";
+import {
+  applyOverrides,
+  removeOverride,
+  setOverride,
+  type AppliedOverride,
+  type StatusOverride,
+} from "@/lib/overrides";
+import {
+  createManualPerson,
+  getNextPersonId,
+  type ManualStatus,
+} from "@/lib/manual-persons";
+import { cropImageRegion, loadImage } from "@/lib/image-utils";
+import {
+  DEFAULT_EXPORT_REDACTION,
+  getRedactionRegions,
+  loadExportRedaction,
+  redactImage,
+  storeExportRedaction,
+  type ExportRedaction,
+  type RedactionExport,
+  type RedactionMode,
+} from "@/lib/redaction";
+import type { PreprocessedImage } from "@/lib/image-preprocess";
+import {
+  clampConfidence,
+  DEFAULT_API_CONFIG,
+  type APIConfigSource,
+} from "@/lib/api-config";
+import { generatePPEDetectionPDF } from "@/lib/pdf-utils";
+import {
+  createAnalysisBundle,
+  getBundleFileName,
+} from "@/lib/analysis-bundle";
+
+interface AnalysisError {
+  message: string;
+  code?: APIErrorCode;
+}
+
+// An image to detect on: the file to upload and its data URL for display
+interface AnalysisSource {
+  file: File;
+  image: string;
+}
+
+interface UploadOptions {
+  // Run detection straight away, e.g. for camera captures
+  detect?: boolean;
+}
+
+interface AnalysisContextValue {
+  // Detection service
+  providerName: DetectionProviderName;
+  changeProvider: (name: DetectionProviderName) => void;
+  isConnected: boolean | null;
+  recheckConnection: () => void;
+  apiConfig: APIConfig;
+  configSource: APIConfigSource;
+
+  // Settings the verdicts are judged with
+  thresholdRules: ThresholdRules;
+  setThresholdRules: (rules: ThresholdRules) => void;
+  confidence: number;
+  setConfidence: (update: number | ((prev: number) => number)) => void;
+  profile: RequirementProfile;
+  selectProfile: (profile: RequirementProfile) => void;
+  ruleSet: RuleSet | null;
+  applyRuleSet: (ruleSet: RuleSet | null) => void;
+
+  // The analysis on screen
+  uploadedImage: string | null;
+  uploadedFile: File | null;
+  rawResults: DetectionResult[];
+  // Detection has run on the image on screen, or it was opened from history
+  hasDetected: boolean;
+  // Persons the model missed, drawn and assessed by a reviewer
+  manualPersons: DetectionResult[];
+  addManualPerson: (
+    boundingBox: BoundingBox,
+    statuses: Record<string, ManualStatus>
+  ) => Promise<void>;
+  removeManualPerson: (personId: number) => void;
+  zones: Zone[];
+  setZones: (zones: Zone[]) => void;
+  inspection: InspectionDetails;
+  setInspection: (details: InspectionDetails) => void;
+  // Reviewer corrections to the model's statuses
+  overrides: StatusOverride[];
+  saveOverride: (override: StatusOverride) => void;
+  clearOverride: (personId: number, itemId: string) => void;
+  // Regions drawn to be redacted in exports, on top of the faces
+  redactionRegions: BoundingBox[];
+  setRedactionRegions: (regions: BoundingBox[]) => void;
+  // Redaction chosen for each kind of export
+  exportRedaction: ExportRedaction;
+  setExportRedaction: (kind: RedactionExport, mode: RedactionMode) => void;
+  currentInspectionId: string | null;
+  preprocessed: PreprocessedImage | null;
+  isProcessing: boolean;
+  error: AnalysisError | null;
+  showError: (message: string, code?: APIErrorCode) => void;
+
+  // Derived from the above
+  evaluatedResults: DetectionResult[];
+  appliedOverrides: AppliedOverride[];
+  allZones: Zone[];
+  results: DetectionResult[];
+  excludedResults: DetectionResult[];
+  zoneNames: Record<number, string[]>;
+  imageVerdict: ImageVerdict;
+  statusChanges: StatusChange[];
+
+  processFileUpload: (file: File, options?: UploadOptions) => Promise<void>;
+  processImage: () => Promise<void>;
+  openSavedInspection: (saved: OpenedInspection) => void;
+  printReport: () => Promise<void>;
+  downloadImage: () => Promise<void>;
+  downloadBundle: () => Promise<void>;
+}
+
+const AnalysisContext = createContext<AnalysisContextValue | null>(null);
+
+// The current analysis and the settings it is judged with, shared by every
+// route of the app shell so the analysis survives navigation
+export function AnalysisProvider({ children }: { children: React.ReactNode }) {
+  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  // Per-item threshold bands; the confidence control edits the default
+  // detected bound. The indeterminate bound is kept as set, even above a
+  // lower detected bound: the rules clamp it when they are evaluated.
+  const [thresholdRules, setThresholdRules] = useState<ThresholdRules>(() =>
+    createThresholdRules(80)
+  );
+  const confidence = thresholdRules.default.detected;
+  const setConfidence = (update: number | ((prev: number) => number)) => {
+    setThresholdRules((prev) => ({
+      ...prev,
+      default: {
+        ...prev.default,
+        detected:
+          typeof update === "function" ? update(prev.default.detected) : update,
+      },
+    }));
+  };
+  // Site requirement profile verdicts are judged against
+  const [profile, setProfile] = useState<RequirementProfile>(
+    DEFAULT_REQUIREMENT_PROFILE
+  );
+  // Compliance rules applied on top of the profile
+  const [ruleSet, setRuleSet] = useState<RuleSet | null>(null);
+  // Zones drawn on the image; persons in exclusion zones are not assessed
+  const [zones, setZones] = useState<Zone[]>([]);
+  // Site, job and inspector the analysis is filed against
+  const [inspection, setInspection] = useState<InspectionDetails>(
+    EMPTY_INSPECTION_DETAILS
+  );
+  // Reviewer overrides, applied on top of the threshold evaluation
+  const [overrides, setOverrides] = useState<StatusOverride[]>([]);
+  // Regions to redact in exports; the image itself is never changed
+  const [redactionRegions, setRedactionRegions] = useState<BoundingBox[]>([]);
+  const [exportRedaction, setExportRedactionState] = useState<ExportRedaction>(
+    DEFAULT_EXPORT_REDACTION
+  );
+  // Saved history record of the analysis on screen, kept up to date as the
+  // details and settings change
+  const [currentInspectionId, setCurrentInspectionId] = useState<
+    string | null
+  >(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Results as returned by the API; statuses are evaluated on the client
+  // with the current thresholds so they follow the threshold controls
+  const [rawResults, setRawResults] = useState<DetectionResult[]>([]);
+  // Persons added by hand; kept apart from the API results and evaluated
+  // with them
+  const [manualPersons, setManualPersons] = useState<DetectionResult[]>([]);
+  // Thresholds the detection ran with, to show what changed since
+  const [detectionRules, setDetectionRules] = useState<ThresholdRules | null>(
+    null
+  );
+  const [preprocessed, setPreprocessed] = useState<PreprocessedImage | null>(
+    null
+  );
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const [isConnected, setIsConnected] = useState<boolean | null>(null);
+  // Bumped to check the connection again without changing provider
+  const [connectionCheck, setConnectionCheck] = useState(0);
+  const [apiConfig, setApiConfig] = useState<APIConfig>(DEFAULT_API_CONFIG);
+  const [configSource, setConfigSource] =
+    useState<APIConfigSource>("defaults");
+  const [providerName, setProviderName] = useState<DetectionProviderName>(
+    ppeAPI.getProvider().name
+  );
+  // In-flight detection request, cancelled when a new image is uploaded
+  const detectAbortRef = useRef<AbortController | null>(null);
+
+  const combinedResults = useMemo(
+    () => [...rawResults, ...manualPersons],
+    [rawResults, manualPersons]
+  );
+  const modelResults = useMemo(
+    () => applyThresholdRules(combinedResults, thresholdRules),
+    [combinedResults, thresholdRules]
+  );
+  const { results: evaluatedResults, applied: appliedOverrides } = useMemo(
+    () => applyOverrides(modelResults, overrides),
+    [modelResults, overrides]
+  );
+  const allZones = useMemo(
+    () => mergeZones(zones, ruleSet?.zones),
+    [zones, ruleSet]
+  );
+  const { kept: results, excluded: excludedResults } = useMemo(
+    () => excludePersonsInZones(evaluatedResults, allZones),
+    [evaluatedResults, allZones]
+  );
+  const zoneNames = useMemo(
+    () => getZoneNamesByPerson(results, allZones),
+    [results, allZones]
+  );
+  const imageVerdict = useMemo(
+    () => getImageVerdict(results, { profile, ruleSet, zones: allZones }),
+    [results, profile, ruleSet, allZones]
+  );
+  const statusChanges = useMemo(
+    () =>
+      detectionRules === null || detectionRules === thresholdRules
+        ? []
+        : getStatusChanges(
+            applyThresholdRules(rawResults, detectionRules),
+            modelResults
+          ),
+    [rawResults, modelResults, detectionRules, thresholdRules]
+  );
+
+  const showError = (message: string, code?: APIErrorCode) => {
+    setError({ message, code });
+  };
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setProfile(loadSelectedProfile());
+    setRuleSet(loadStoredRuleSet());
+    setExportRedactionState(loadExportRedaction());
+  }, []);
+
+  const selectProfile = (next: RequirementProfile) => {
+    setProfile(next);
+    storeSelectedProfile(next);
+  };
+
+  const applyRuleSet = (next: RuleSet | null) => {
+    setRuleSet(next);
+    storeRuleSet(next);
+  };
+
+  const setExportRedaction = (kind: RedactionExport, mode: RedactionMode) => {
+    const next = { ...exportRedaction, [kind]: mode };
+    setExportRedactionState(next);
+    storeExportRedaction(next);
+  };
+
+  // Keep the saved analysis in step with later edits, once typing settles
+  useEffect(() => {
+    if (!currentInspectionId) return;
+    const timer = setTimeout(() => {
+      updateInspection(currentInspectionId, {
+        inspection,
+        thresholds: thresholdRules,
+        profile,
+        ruleSet,
+        zones,
+        overrides,
+        manualPersons,
+        redactionRegions,
+      }).catch((error) =>
+        console.warn("Could not update inspection history:", error)
+      );
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [
+    currentInspectionId,
+    inspection,
+    thresholdRules,
+    profile,
+    ruleSet,
+    zones,
+    overrides,
+    manualPersons,
+    redactionRegions,
+  ]);
+
+  // Check API connectivity on mount and whenever the provider changes
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const checkConnection = async () => {
+      setIsConnected(null);
+      try {
+        await ppeAPI.healthCheck({ signal: controller.signal });
+        setIsConnected(true);
+        setError(null);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setIsConnected(false);
+        if (error instanceof APIError) {
+          showError(`API Connection Error: ${error.message}`, error.code);
+        } else {
+          showError("Unable to connect to PPE Detection API");
+        }
+      }
+    };
+
+    // Limits and threshold bounds reported by the provider
+    const loadConfig = async () => {
+      const loaded = await ppeAPI.loadConfig();
+      if (controller.signal.aborted) {
+        return;
+      }
+      setApiConfig(loaded.config);
+      setConfigSource(loaded.source);
+      setConfidence((prev) => clampConfidence(prev, loaded.config));
+    };
+
+    checkConnection();
+    loadConfig();
+    return () => controller.abort();
+  }, [providerName, connectionCheck]);
+
+  // Switch between the backend and the offline mock/replay providers
+  const changeProvider = (name: DetectionProviderName) => {
+    detectAbortRef.current?.abort();
+    ppeAPI.setProvider(name);
+    setProviderName(name);
+    setRawResults([]);
+    setManualPersons([]);
+    setOverrides([]);
+    setDetectionRules(null);
+    setCurrentInspectionId(null);
+  };
+
+  const processFileUpload = async (
+    file: File,
+    options: UploadOptions = {}
+  ) => {
+    // Validate file
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      showError(validation.error || "Invalid file");
+      return;
+    }
+
+    // A new image supersedes any detection still running for the old one
+    detectAbortRef.current?.abort();
+
+    let base64: string;
+    try {
+      // Convert to base64 for preview
+      base64 = await fileToBase64(file);
+      setUploadedFile(file);
+      setUploadedImage(base64);
+      setRawResults([]); // Clear previous results
+      setManualPersons([]);
+      setOverrides([]);
+      setRedactionRegions([]);
+      setDetectionRules(null);
+      setCurrentInspectionId(null);
+      setPreprocessed(null);
+      setError(null); // Clear any previous errors
+    } catch (error) {
+      showError("Error processing file");
+      return;
+    }
+
+    if (options.detect) {
+      await detect({ file, image: base64 });
+    }
+  };
+
+  // Store the analysis while the crop URLs are still valid. History is a
+  // convenience: failures are logged without interrupting the inspection.
+  const saveToHistory = async (
+    detected: DetectionResult[],
+    source: AnalysisSource
+  ) => {
+    if (!isHistoryAvailable()) return;
+    try {
+      const record = await saveInspection(
+        {
+          fileName: source.file.name,
+          providerName,
+          results: detected,
+          thresholds: thresholdRules,
+          detectionThresholds: thresholdRules,
+          profile,
+          ruleSet,
+          zones,
+          inspection,
+          overrides: [],
+          manualPersons: [],
+          redactionRegions,
+        },
+        source.image
+      );
+      setCurrentInspectionId(record.id);
+    } catch (error) {
+      console.warn("Could not save inspection history:", error);
+    }
+  };
+
+  const processImage = async () => {
+    if (!uploadedFile || !uploadedImage) {
+      showError("Please upload an image first");
+      return;
+    }
+    await detect({ file: uploadedFile, image: uploadedImage });
+  };
+
+  // Takes the image as an argument so a file uploaded in the same event can
+  // be detected before the state holds it
+  const detect = async (source: AnalysisSource) => {
+    if (!isConnected) {
+      showError("Not connected to API. Please check your backend server.");
+      return;
+    }
+
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      // Orient, downsize and re-encode large photos before upload
+      const prepared = await ppeAPI.prepareImage(source.file);
+      setPreprocessed(prepared);
+
+      // Call the actual API
+      const response = await ppeAPI.detectPPE(
+        prepared ? prepared.file : source.file,
+        confidence,
+        {
+          signal: controller.signal,
+          thresholds: thresholdRules,
+          // A single upload is resent on a transient failure
+          retry: true,
+        }
+      );
+
+      if (response.success) {
+        setRawResults(response.data.results);
+        // Person ids of a new detection do not match the old overrides, and
+        // added persons may now be found by the model
+        setOverrides([]);
+        setManualPersons([]);
+        setDetectionRules(thresholdRules);
+        setError(null);
+        saveToHistory(response.data.results, source);
+      } else {
+        showError(response.error || "Detection failed", "provider-failure");
+        setRawResults([]);
+      }
+    } catch (error) {
+      if (error instanceof APIError && error.code === "cancelled") {
+        return;
+      }
+      console.error("PPE Detection Error:", error);
+      if (error instanceof APIError) {
+        showError(`API Error: ${error.message}`, error.code);
+      } else {
+        showError("An unexpected error occurred during processing");
+      }
+      setRawResults([]);
+    } finally {
+      if (detectAbortRef.current === controller) {
+        detectAbortRef.current = null;
+        setIsProcessing(false);
+      }
+    }
+  };
+
+  // Show a saved analysis with the settings it was last saved with
+  const openSavedInspection = (saved: OpenedInspection) => {
+    detectAbortRef.current?.abort();
+    setUploadedFile(saved.file);
+    setUploadedImage(saved.image);
+    setRawResults(saved.results);
+    setDetectionRules(saved.detectionThresholds);
+    setThresholdRules(saved.thresholds);
+    setProfile(saved.profile);
+    setRuleSet(saved.ruleSet);
+    setZones(saved.zones);
+    setInspection(saved.inspection);
+    setOverrides(saved.overrides ?? []);
+    setManualPersons(saved.manualPersons ?? []);
+    setRedactionRegions(saved.redactionRegions ?? []);
+    setCurrentInspectionId(saved.id);
+    setPreprocessed(null);
+    setError(null);
+  };
+
+  const printReport = async () => {
+    if (results.length === 0) {
+      showError("No detection results to print. Please process an image first.");
+      return;
+    }
+
+    const inspectionErrors = getInspectionErrors(inspection);
+    if (inspectionErrors.length > 0) {
+      showError(
+        `Complete the inspection details before printing: ${inspectionErrors.join(
+          "; "
+        )}.`
+      );
+      return;
+    }
+
+    try {
+      await generatePPEDetectionPDF({
+        results: combinedResults,
+        originalImage: uploadedImage || undefined,
+        confidence,
+        thresholds: thresholdRules,
+        profile,
+        ruleSet,
+        zones: allZones,
+        inspection,
+        overrides,
+        redaction: { mode: exportRedaction.pdf, regions: redactionRegions },
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      showError("Failed to generate PDF. Please try again.");
+    }
+  };
+
+  // Save the image, redacted as chosen for image downloads
+  const downloadImage = async () => {
+    if (!uploadedImage) {
+      showError("Please upload an image first");
+      return;
+    }
+
+    try {
+      const image = await redactImage(
+        uploadedImage,
+        getRedactionRegions(combinedResults, redactionRegions),
+        exportRedaction.image
+      );
+      const baseName = uploadedFile?.name.replace(/\.[^.]+$/, "") || "image";
+      const link = document.createElement("a");
+      link.href = image;
+      link.download =
+        exportRedaction.image === "none"
+          ? uploadedFile?.name || "image.jpg"
+          : `${baseName}-redacted.jpg`;
+      link.click();
+    } catch (error) {
+      console.error("Error downloading image:", error);
+      showError("Failed to download the image. Please try again.");
+    }
+  };
+
+  // Save the analysis, its images and the inspection details as one file to
+  // share, redacted as chosen for bundles
+  const downloadBundle = async () => {
+    if (!uploadedImage || results.length === 0) {
+      showError("No detection results to share. Please process an image first.");
+      return;
+    }
+
+    const inspectionErrors = getInspectionErrors(inspection);
+    if (inspectionErrors.length > 0) {
+      showError(
+        `Complete the inspection details before sharing: ${inspectionErrors.join(
+          "; "
+        )}.`
+      );
+      return;
+    }
+
+    try {
+      const fileName = uploadedFile?.name || "image.jpg";
+      const bundle = await createAnalysisBundle({
+        fileName,
+        inspection,
+        image: uploadedImage,
+        allResults: combinedResults,
+        results,
+        excludedResults,
+        imageVerdict,
+        overrides,
+        thresholds: thresholdRules,
+        profile,
+        ruleSet,
+        zones: allZones,
+        redaction: { mode: exportRedaction.bundle, regions: redactionRegions },
+      });
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getBundleFileName(fileName);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting bundle:", error);
+      showError("Failed to export the bundle. Please try again.");
+    }
+  };
+
+  const saveOverride = (override: StatusOverride) => {
+    setOverrides((prev) => setOverride(prev, override));
+  };
+
+  const clearOverride = (personId: number, itemId: string) => {
+    setOverrides((prev) => removeOverride(prev, personId, itemId));
+  };
+
+  // Crop the drawn box out of the image and add the person after the others
+  const addManualPerson = async (
+    boundingBox: BoundingBox,
+    statuses: Record<string, ManualStatus>
+  ) => {
+    if (!uploadedImage) return;
+    try {
+      const image = cropImageRegion(await loadImage(uploadedImage), boundingBox);
+      setManualPersons((prev) => [
+        ...prev,
+        createManualPerson({
+          personId: getNextPersonId([...rawResults, ...prev]),
+          boundingBox,
+          image,
+          statuses,
+        }),
+      ]);
+    } catch (error) {
+      console.error("Could not crop the drawn person:", error);
+      showError("Could not add the person. Please try again.");
+    }
+  };
+
+  const removeManualPerson = (personId: number) => {
+    setManualPersons((prev) =>
+      prev.filter((person) => person.personId !== personId)
+    );
+    setOverrides((prev) =>
+      prev.filter((override) => override.personId !== personId)
+    );
+  };
+
+  const value: AnalysisContextValue = {
+    providerName,
+    changeProvider,
+    isConnected,
+    recheckConnection: () => setConnectionCheck((prev) => prev + 1),
+    apiConfig,
+    configSource,
+    thresholdRules,
+    setThresholdRules,
+    confidence,
+    setConfidence,
+    profile,
+    selectProfile,
+    ruleSet,
+    applyRuleSet,
+    uploadedImage,
+    uploadedFile,
+    rawResults,
+    hasDetected: detectionRules !== null,
+    manualPersons,
+    addManualPerson,
+    removeManualPerson,
+    zones,
+    setZones,
+    inspection,
+    setInspection,
+    overrides,
+    saveOverride,
+    clearOverride,
+    redactionRegions,
+    setRedactionRegions,
+    exportRedaction,
+    setExportRedaction,
+    currentInspectionId,
+    preprocessed,
+    isProcessing,
+    error,
+    showError,
+    evaluatedResults,
+    appliedOverrides,
+    allZones,
+    results,
+    excludedResults,
+    zoneNames,
+    imageVerdict,
+    statusChanges,
+    processFileUpload,
+    processImage,
+    openSavedInspection,
+    printReport,
+    downloadImage,
+    downloadBundle,
+  };
+
+  return (
+    <AnalysisContext.Provider value={value}>
+      {children}
+    </AnalysisContext.Provider>
+  );
+}
+
+export function useAnalysis(): AnalysisContextValue {
+  const context = useContext(AnalysisContext);
+  if (!context) {
+    throw new Error("useAnalysis must be used within an AnalysisProvider");
+  }
+  return context;
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useRef, useState } from "react";
+import { Maximize, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import { DetectionResult, isNotCovering } from "@/lib/api";
+import { loadImage } from "@/lib/image-utils";
+import { SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import { ZONE_COLORS, type Zone } from "@/lib/zones";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+// Pointer movement (px) below which a press counts as a click, not a pan
+const CLICK_TOLERANCE = 4;
+
+const PERSON_COLOR = "#2563eb";
+const HIGHLIGHT_COLOR = "#facc15";
+const NO_ZONES: Zone[] = [];
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+// Draw the image with the zone outlines, every person's box and ID, plus
+// the equipment boxes of the visible PPE items
+function drawAnnotations(
+  canvas: HTMLCanvasElement,
+  img: HTMLImageElement,
+  results: DetectionResult[],
+  zones: Zone[],
+  visibleItems: Set<string>,
+  highlightedPersonId: number | null
+): void {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.drawImage(img, 0, 0);
+  const lineWidth = Math.max(2, Math.round(Math.max(width, height) / 400));
+  const fontSize = lineWidth * 8;
+
+  zones.forEach((zone) => {
+    ctx.beginPath();
+    zone.points.forEach((point, index) => {
+      if (index === 0) ctx.moveTo(point.x * width, point.y * height);
+      else ctx.lineTo(point.x * width, point.y * height);
+    });
+    ctx.closePath();
+    ctx.strokeStyle = ZONE_COLORS[zone.kind];
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash([lineWidth * 4, lineWidth * 2]);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  results.forEach((result) => {
+    const highlighted = result.personId === highlightedPersonId;
+
+    SUPPORTED_PPE_ITEMS.forEach((item) => {
+      const itemResult = result.ppe[item.id];
+      const box = itemResult?.equipmentBox;
+      if (!itemResult || !box || !visibleItems.has(item.id)) return;
+
+      ctx.strokeStyle = item.color;
+      ctx.lineWidth = lineWidth;
+      // Dashed when the equipment is not actually worn
+      ctx.setLineDash(
+        isNotCovering(itemResult) ? [lineWidth * 3, lineWidth * 2] : []
+      );
+      ctx.strokeRect(
+        box.x * width,
+        box.y * height,
+        box.width * width,
+        box.height * height
+      );
+    });
+    ctx.setLineDash([]);
+
+    const box = result.boundingBox;
+    if (!box) return;
+
+    const color = highlighted ? HIGHLIGHT_COLOR : PERSON_COLOR;
+    const left = box.x * width;
+    const top = box.y * height;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = highlighted ? lineWidth * 2 : lineWidth;
+    ctx.strokeRect(left, top, box.width * width, box.height * height);
+
+    // Person ID tag above the box (inside it when at the top edge)
+    const label = `#${result.personId}${
+      result.source === "manual" ? " manual" : ""
+    }`;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    const labelWidth = ctx.measureText(label).width + fontSize / 2;
+    const labelTop = top >= fontSize * 1.4 ? top - fontSize * 1.4 : top;
+    ctx.fillStyle = color;
+    ctx.fillRect(left, labelTop, labelWidth, fontSize * 1.4);
+    ctx.fillStyle = highlighted ? "#000000" : "#ffffff";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, left + fontSize / 4, labelTop + fontSize * 0.7);
+  });
+}
+
+// Person whose box contains the point (image ratios). The smallest box wins
+// so overlapping persons in the background can still be picked.
+function findPersonAt(
+  results: DetectionResult[],
+  x: number,
+  y: number
+): number | null {
+  let found: number | null = null;
+  let foundArea = Infinity;
+  for (const result of results) {
+    const box = result.boundingBox;
+    if (
+      !box ||
+      x < box.x ||
+      x > box.x + box.width ||
+      y < box.y ||
+      y > box.y + box.height
+    ) {
+      continue;
+    }
+    const area = box.width * box.height;
+    if (area < foundArea) {
+      found = result.personId;
+      foundArea = area;
+    }
+  }
+  return found;
+}
+
+interface AnnotatedImageViewerProps {
+  imageSrc: string;
+  results: DetectionResult[];
+  zones?: Zone[];
+  highlightedPersonId: number | null;
+  onPersonHover?: (personId: number | null) => void;
+  onPersonSelect?: (personId: number) => void;
+}
+
+// Zoomable, pannable view of the original upload with person and equipment
+// boxes drawn on a client canvas
+export function AnnotatedImageViewer({
+  imageSrc,
+  results,
+  zones = NO_ZONES,
+  highlightedPersonId,
+  onPersonHover,
+  onPersonSelect,
+}: AnnotatedImageViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [visibleItems, setVisibleItems] = useState<Set<string>>(
+    () => new Set(SUPPORTED_PPE_ITEMS.map((item) => item.id))
+  );
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const dragRef = useRef<{
+    startX: number;
+    startY: number;
+    origin: ViewTransform;
+    moved: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+    setLoadFailed(false);
+    loadImage(imageSrc)
+      .then((img) => {
+        if (!cancelled) setImage(img);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadFailed(true);
+      });
+    setView(IDENTITY);
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      drawAnnotations(
+        canvasRef.current,
+        image,
+        results,
+        zones,
+        visibleItems,
+        highlightedPersonId
+      );
+    }
+  }, [image, results, zones, visibleItems, highlightedPersonId]);
+
+  // Zoom around a point of the container, keeping that point fixed
+  const zoomAt = (factor: number, pointX: number, pointY: number) => {
+    setView((prev) => {
+      const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.scale * factor));
+      if (scale === MIN_ZOOM) return IDENTITY;
+      const ratio = scale / prev.scale;
+      return {
+        scale,
+        x: pointX - (pointX - prev.x) * ratio,
+        y: pointY - (pointY - prev.y) * ratio,
+      };
+    });
+  };
+
+  const zoomAtCenter = (factor: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    zoomAt(factor, rect ? rect.width / 2 : 0, rect ? rect.height / 2 : 0);
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(
+        e.deltaY < 0 ? 1.2 : 1 / 1.2,
+        e.clientX - rect.left,
+        e.clientY - rect.top
+      );
+    };
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // Pointer position as ratios of the image
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: view,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (Math.abs(dx) + Math.abs(dy) > CLICK_TOLERANCE) {
+        drag.moved = true;
+      }
+      if (drag.moved && view.scale > MIN_ZOOM) {
+        setView({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+      }
+      return;
+    }
+
+    const point = toImagePoint(e);
+    onPersonHover?.(point ? findPersonAt(results, point.x, point.y) : null);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+
+    const point = toImagePoint(e);
+    const personId = point ? findPersonAt(results, point.x, point.y) : null;
+    if (personId !== null) {
+      onPersonSelect?.(personId);
+    }
+  };
+
+  const toggleItem = (itemId: string) => {
+    setVisibleItems((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {/* Equipment box toggles */}
+        <div className="flex flex-wrap gap-2">
+          {SUPPORTED_PPE_ITEMS.map((item) => (
+            <Button
+              key={item.id}
+              variant="outline"
+              size="sm"
+              onClick={() => toggleItem(item.id)}
+              className={visibleItems.has(item.id) ? "" : "opacity-40"}
+              aria-pressed={visibleItems.has(item.id)}
+            >
+              <PPEItemIcon item={item} className="h-4 w-4" />
+              {item.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => zoomAtCenter(1.5)}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => zoomAtCenter(1 / 1.5)}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setView(IDENTITY)}
+            aria-label="Reset zoom"
+          >
+            <Maximize className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={`relative overflow-hidden border bg-gray-100 select-none touch-none ${
+          view.scale > MIN_ZOOM ? "cursor-grab" : "cursor-pointer"
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => onPersonHover?.(null)}
+      >
+        <canvas
+          ref={canvasRef}
+          className="block w-full h-auto"
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: "0 0",
+          }}
+        />
+        {!image && (
+          <div className="py-12 text-center text-gray-500">
+            {loadFailed
+              ? "This image cannot be displayed in the browser"
+              : "Loading image..."}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Scroll to zoom, drag to pan. Click a person to jump to their result.
+        Dashed boxes mark equipment that is not covering the body part.
+      </p>
+    </div>
+  );
+}
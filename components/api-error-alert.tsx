@@ -0,0 +1,25 @@
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { API_ERROR_GUIDANCE, type APIErrorCode } from "@/lib/api";
+
+// Error message with recovery guidance for classified API failures
+export function APIErrorAlert({
+  message,
+  code,
+}: {
+  message: string;
+  code?: APIErrorCode;
+}) {
+  const guidance = code ? API_ERROR_GUIDANCE[code] : undefined;
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle />
+      <AlertTitle>{guidance ? guidance.title : "Error"}</AlertTitle>
+      <AlertDescription>
+        <p>{message}</p>
+        {guidance && <p className="text-gray-600">{guidance.guidance}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import type React from "react";
+
+import Image from "next/image";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import {
+  FileText,
+  Film,
+  History,
+  Images,
+  ScanSearch,
+  Settings,
+  ShieldCheck,
+} from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { useAnalysis } from "@/components/analysis-provider";
+
+const NAV_ITEMS = [
+  { href: "/detect", label: "Detect", icon: ScanSearch },
+  { href: "/batch", label: "Batch", icon: Images },
+  { href: "/video", label: "Video", icon: Film },
+  // Reopened analyses live under /inspections/[id]
+  { href: "/history", label: "History", icon: History, also: "/inspections" },
+  { href: "/reports", label: "Reports", icon: FileText },
+  { href: "/settings", label: "Settings", icon: Settings },
+  { href: "/admin", label: "Admin", icon: ShieldCheck },
+];
+
+function isActive(pathname: string, href: string): boolean {
+  return pathname === href || pathname.startsWith(`${href}/`);
+}
+
+// Sidebar navigation and the company header around every route
+export function AppShell({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname() ?? "";
+  const { isConnected, providerName } = useAnalysis();
+
+  return (
+    <SidebarProvider>
+      <Sidebar collapsible="icon">
+        <SidebarHeader>
+          <div className="flex items-center gap-2 p-1">
+            <Image
+              src="/logo.jpg"
+              alt="Gulf Consulting Logo"
+              width={32}
+              height={32}
+              className="object-contain"
+            />
+            <span className="font-semibold text-sm group-data-[collapsible=icon]:hidden">
+              PPE Detection
+            </span>
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {NAV_ITEMS.map((item) => (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton
+                      asChild
+                      tooltip={item.label}
+                      isActive={
+                        isActive(pathname, item.href) ||
+                        (item.also !== undefined &&
+                          isActive(pathname, item.also))
+                      }
+                    >
+                      <Link href={item.href}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+        <SidebarFooter>
+          <div className="flex items-center gap-2 p-1 text-xs text-gray-600">
+            <span
+              className={`h-2 w-2 shrink-0 rounded-full ${
+                isConnected === null
+                  ? "bg-gray-400"
+                  : isConnected
+                  ? "bg-green-500"
+                  : "bg-red-500"
+              }`}
+            />
+            <span className="group-data-[collapsible=icon]:hidden">
+              {isConnected === null
+                ? "Connecting..."
+                : isConnected
+                ? `Connected (${providerName})`
+                : "Disconnected"}
+            </span>
+          </div>
+        </SidebarFooter>
+      </Sidebar>
+
+      <SidebarInset className="bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b-2 border-gray-300 shadow-sm">
+          <div className="flex items-center gap-4 px-4 py-6">
+            <SidebarTrigger />
+            <div className="flex-1 text-center">
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">
+                GULF CONSULTING
+              </h1>
+              <h1 className="text-3xl font-bold text-gray-800">
+                PPE DETECTION SYSTEM
+              </h1>
+            </div>
+            <Image
+              src="/logo.jpg"
+              alt="Gulf Consulting Logo"
+              width={135}
+              height={135}
+              className="object-contain hidden md:block"
+            />
+          </div>
+        </header>
+        <div className="p-4">
+          <div className="max-w-7xl mx-auto">{children}</div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
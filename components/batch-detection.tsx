@@ -0,0 +1,409 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Image from "next/image";
+import { ChevronDown, ChevronRight, RotateCcw, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { DetectionResultCard } from "@/components/detection-result-card";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import { VerdictBadge } from "@/components/compliance-verdict";
+import {
+  API_ERROR_GUIDANCE,
+  APIConfig,
+  ThresholdRules,
+  ppeAPI,
+  validateImageFile,
+} from "@/lib/api";
+import {
+  BatchItem,
+  BatchItemStatus,
+  createBatchItems,
+  DEFAULT_BATCH_CONCURRENCY,
+  summarizeBatch,
+} from "@/lib/batch";
+import { SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import { applyThresholdRules } from "@/lib/thresholds";
+import { getImageVerdict } from "@/lib/compliance";
+import type { RequirementProfile } from "@/lib/requirement-profiles";
+import type { RuleSet } from "@/lib/compliance-rules";
+
+const STATUS_BADGES: Record<BatchItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  processing: "bg-blue-100 text-blue-700",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  cancelled: "bg-yellow-100 text-yellow-800",
+};
+
+const STATUS_PROGRESS: Record<BatchItemStatus, number> = {
+  queued: 0,
+  processing: 50,
+  done: 100,
+  failed: 100,
+  cancelled: 0,
+};
+
+interface BatchDetectionProps {
+  thresholds: ThresholdRules;
+  profile: RequirementProfile;
+  ruleSet: RuleSet | null;
+  isConnected: boolean | null;
+  config: APIConfig;
+}
+
+export function BatchDetection({
+  thresholds,
+  profile,
+  ruleSet,
+  isConnected,
+  config,
+}: BatchDetectionProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const thumbnailsRef = useRef(thumbnails);
+  thumbnailsRef.current = thumbnails;
+
+  // Release thumbnail object URLs on unmount
+  useEffect(() => {
+    return () => {
+      Object.values(thumbnailsRef.current).forEach((url) =>
+        URL.revokeObjectURL(url)
+      );
+    };
+  }, []);
+
+  // Statuses are re-evaluated against the current threshold for display
+  const displayItems = useMemo(
+    () =>
+      items.map((item) =>
+        item.results
+          ? { ...item, results: applyThresholdRules(item.results, thresholds) }
+          : item
+      ),
+    [items, thresholds]
+  );
+  const summary = useMemo(
+    () => summarizeBatch(displayItems, { profile, ruleSet }),
+    [displayItems, profile, ruleSet]
+  );
+  const queued = items.filter((item) => item.status === "queued");
+  const rerunnable = items.filter(
+    (item) => item.status === "failed" || item.status === "cancelled"
+  );
+
+  const addFiles = (files: File[]) => {
+    const accepted: File[] = [];
+    const errors: string[] = [];
+    files.forEach((file) => {
+      const validation = validateImageFile(file, config);
+      if (validation.valid) {
+        accepted.push(file);
+      } else {
+        errors.push(`${file.name}: ${validation.error}`);
+      }
+    });
+
+    const newItems = createBatchItems(accepted);
+    setItems((prev) => [...prev, ...newItems]);
+    setThumbnails((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        newItems.map((item) => [item.id, URL.createObjectURL(item.file)])
+      ),
+    }));
+    setRejected(errors);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const run = async (batch: BatchItem[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      const finalItems = await ppeAPI.detectBatch(batch, {
+        confidenceThreshold: thresholds.default.detected,
+        thresholds,
+        concurrency,
+        signal: controller.signal,
+        onItemUpdate: (updated) =>
+          setItems((prev) =>
+            prev.map((item) => (item.id === updated.id ? updated : item))
+          ),
+      });
+      const finalById = new Map(finalItems.map((item) => [item.id, item]));
+      setItems((prev) => prev.map((item) => finalById.get(item.id) || item));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const clear = () => {
+    Object.values(thumbnails).forEach((url) => URL.revokeObjectURL(url));
+    setItems([]);
+    setThumbnails({});
+    setExpandedId(null);
+    setRejected([]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Queue controls */}
+      <div className="space-y-4">
+        <div
+          className="border-4 border-blue-400 border-dashed rounded-lg p-6 text-center bg-blue-50 cursor-pointer"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+          <p className="text-gray-600">Drag and drop site photos here</p>
+          <p className="text-sm text-gray-500 mt-2">
+            Multiple .jpeg, .png, .webp and .heic images
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </div>
+
+        {rejected.length > 0 && (
+          <div className="text-xs text-red-600 space-y-1">
+            {rejected.map((message) => (
+              <p key={message}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <Label htmlFor="concurrency" className="font-semibold">
+            Parallel uploads
+          </Label>
+          <Input
+            id="concurrency"
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            disabled={isRunning}
+            onChange={(e) =>
+              setConcurrency(Math.min(8, Math.max(1, Number(e.target.value))))
+            }
+            className="w-20 text-center"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => run(queued)}
+            disabled={isRunning || !isConnected || queued.length === 0}
+            className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold"
+          >
+            {isRunning ? "Processing..." : `GO (${queued.length})`}
+          </Button>
+          {isRunning ? (
+            <Button variant="outline" onClick={cancel}>
+              <X className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => run(rerunnable)}
+              disabled={rerunnable.length === 0 || !isConnected}
+            >
+              <RotateCcw className="mr-1 h-4 w-4" />
+              Rerun failed ({rerunnable.length})
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            onClick={clear}
+            disabled={isRunning || items.length === 0}
+          >
+            Clear
+          </Button>
+        </div>
+
+        {/* Aggregate compliance summary */}
+        {items.length > 0 && (
+          <div className="border border-gray-300 bg-white p-4 space-y-3 text-sm">
+            <div>
+              <div className="flex justify-between mb-1">
+                <span className="font-semibold">Progress</span>
+                <span>
+                  {summary.done + summary.failed} / {summary.total}
+                </span>
+              </div>
+              <Progress
+                value={
+                  ((summary.done + summary.failed) / summary.total) * 100
+                }
+              />
+            </div>
+            <div className="flex justify-between">
+              <span>Failed</span>
+              <span className="font-semibold text-red-600">
+                {summary.failed}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Persons detected</span>
+              <span className="font-semibold">{summary.persons}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Fully compliant persons</span>
+              <span className="font-semibold">
+                {summary.compliantPersons} / {summary.persons}
+              </span>
+            </div>
+            {summary.persons > 0 &&
+              SUPPORTED_PPE_ITEMS.map((item) => (
+                <div key={item.id} className="flex justify-between">
+                  <span className="flex items-center gap-1">
+                    <PPEItemIcon item={item} className="h-4 w-4" />
+                    {item.label}
+                  </span>
+                  <span>
+                    {Math.round(
+                      (summary.detectedByItem[item.id] / summary.persons) * 100
+                    )}
+                    %
+                  </span>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* Per-image progress and results */}
+      <div className="lg:col-span-2 border border-gray-300 bg-white">
+        <h3 className="font-semibold p-3 border-b bg-gray-50">
+          Batch Results
+        </h3>
+        {items.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No images queued
+          </div>
+        ) : (
+          <div className="divide-y">
+            {displayItems.map((item) => {
+              const imageVerdict = item.results
+                ? getImageVerdict(item.results, { profile, ruleSet })
+                : null;
+              const expanded = expandedId === item.id;
+              return (
+                <div key={item.id} className="p-3">
+                  <div
+                    className="flex items-center gap-3 cursor-pointer"
+                    onClick={() =>
+                      item.results && setExpandedId(expanded ? null : item.id)
+                    }
+                  >
+                    {item.results ? (
+                      expanded ? (
+                        <ChevronDown className="h-4 w-4 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 flex-shrink-0" />
+                      )
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <Image
+                      src={thumbnails[item.id] || "/placeholder.svg"}
+                      alt={item.file.name}
+                      width={48}
+                      height={48}
+                      className="h-12 w-12 object-cover rounded border flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-medium text-sm">
+                          {item.file.name}
+                        </span>
+                        <Badge className={STATUS_BADGES[item.status]}>
+                          {item.status}
+                          {item.attempts > 1 && ` (attempt ${item.attempts})`}
+                        </Badge>
+                      </div>
+                      <Progress
+                        value={STATUS_PROGRESS[item.status]}
+                        className="mt-2 h-1.5"
+                      />
+                      {item.error && (
+                        <p className="text-xs text-red-600 mt-1">
+                          {item.error}
+                          {item.errorCode && (
+                            <span className="block text-gray-500">
+                              {API_ERROR_GUIDANCE[item.errorCode].guidance}
+                            </span>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {imageVerdict && (
+                      <div className="text-sm text-right flex-shrink-0 space-y-1">
+                        <VerdictBadge verdict={imageVerdict.verdict} />
+                        <p>
+                          {imageVerdict.compliant} of {imageVerdict.total}{" "}
+                          compliant
+                        </p>
+                        {imageVerdict.total > config.max_persons_per_image && (
+                          <p className="text-xs text-orange-600">
+                            Over {config.max_persons_per_image} persons, some
+                            may be missed
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {expanded && item.results && (
+                    <div className="mt-3 space-y-3">
+                      {item.results.map((result, index) => (
+                        <DetectionResultCard
+                          key={result.personId}
+                          result={result}
+                          profile={profile}
+                          verdict={imageVerdict?.persons[index]}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
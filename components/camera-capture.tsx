@@ -0,0 +1,208 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useRef, useState } from "react";
+import { Camera, SwitchCamera } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { captureVideoFrame } from "@/lib/image-preprocess";
+
+type FacingMode = "environment" | "user";
+
+// Seconds between automatic captures; 0 turns auto-capture off
+const AUTO_CAPTURE_INTERVALS = [0, 5, 10, 30, 60];
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  // A capture is being detected; auto-capture waits for it to finish
+  busy?: boolean;
+  disabled?: boolean;
+  // Outcome of the last capture, shown under the preview
+  status?: React.ReactNode;
+}
+
+function describeCameraError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : "";
+  if (name === "NotAllowedError") {
+    return "Camera access was denied. Allow the camera for this site in the browser settings.";
+  }
+  if (name === "NotFoundError" || name === "OverconstrainedError") {
+    return "No camera was found on this device.";
+  }
+  if (name === "NotReadableError") {
+    return "The camera is in use by another app.";
+  }
+  return "The camera could not be started.";
+}
+
+// Live camera preview with front/back switching, a capture button and an
+// optional auto-capture interval. Captured frames are handed on as JPEG files.
+export function CameraCapture({
+  onCapture,
+  busy = false,
+  disabled = false,
+  status,
+}: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>("environment");
+  const [isReady, setIsReady] = useState(false);
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [autoInterval, setAutoInterval] = useState(0);
+
+  // Start the camera, and restart it facing the other way when switched.
+  // Tracks are stopped on unmount so the camera light goes off.
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError(
+        "This browser cannot access the camera. Camera capture needs HTTPS or localhost."
+      );
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setCameraError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: {
+          facingMode: { ideal: facingMode },
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false,
+      })
+      .then(async (started) => {
+        if (cancelled) {
+          started.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = started;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = started;
+          await video.play();
+        }
+        // Device labels and counts are only reliable once access is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(
+            devices.filter((device) => device.kind === "videoinput").length > 1
+          );
+          setIsReady(true);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setCameraError(describeCameraError(error));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facingMode]);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      onCapture(await captureVideoFrame(video));
+    } catch (error) {
+      setCameraError(
+        error instanceof Error ? error.message : "Could not capture a frame"
+      );
+    }
+  };
+
+  // Read through a ref so the interval is not restarted on every render
+  const captureRef = useRef(capture);
+  captureRef.current = capture;
+  const canCapture = isReady && !disabled && !busy;
+  const canCaptureRef = useRef(canCapture);
+  canCaptureRef.current = canCapture;
+
+  useEffect(() => {
+    if (autoInterval === 0) return;
+    const timer = setInterval(() => {
+      // Skip a tick rather than queue captures behind a slow detection
+      if (canCaptureRef.current) captureRef.current();
+    }, autoInterval * 1000);
+    return () => clearInterval(timer);
+  }, [autoInterval]);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="relative overflow-hidden rounded-lg bg-black">
+        {/* The front camera preview is mirrored; captures are not */}
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`block w-full max-h-[60vh] object-contain ${
+            facingMode === "user" ? "-scale-x-100" : ""
+          }`}
+        />
+        {!isReady && !cameraError && (
+          <p className="absolute inset-0 flex items-center justify-center text-white">
+            Starting camera...
+          </p>
+        )}
+      </div>
+      {cameraError && <p className="text-xs text-red-600">{cameraError}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          onClick={capture}
+          disabled={!canCapture}
+          className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold px-8"
+        >
+          <Camera className="h-4 w-4" />
+          {busy ? "Processing..." : "Capture"}
+        </Button>
+        {hasMultipleCameras && (
+          <Button
+            variant="outline"
+            onClick={() =>
+              setFacingMode((prev) =>
+                prev === "environment" ? "user" : "environment"
+              )
+            }
+            aria-label="Switch between front and back camera"
+          >
+            <SwitchCamera className="h-4 w-4" />
+            {facingMode === "environment" ? "Front" : "Back"}
+          </Button>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Label htmlFor="auto-capture">Auto-capture</Label>
+          <Select
+            value={String(autoInterval)}
+            onValueChange={(value) => setAutoInterval(Number(value))}
+          >
+            <SelectTrigger id="auto-capture" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_CAPTURE_INTERVALS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds === 0 ? "Off" : `Every ${seconds}s`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {status}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, FileCode, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  EXAMPLE_RULE_SET,
+  parseRuleSet,
+  type RuleSet,
+} from "@/lib/compliance-rules";
+
+interface ComplianceRulesSettingsProps {
+  ruleSet: RuleSet | null;
+  onChange: (ruleSet: RuleSet | null) => void;
+}
+
+function formatRuleSet(ruleSet: RuleSet | null): string {
+  return ruleSet ? JSON.stringify(ruleSet, null, 2) : "";
+}
+
+// JSON editor for the compliance rules applied on top of the site profile
+export function ComplianceRulesSettings({
+  ruleSet,
+  onChange,
+}: ComplianceRulesSettingsProps) {
+  const [text, setText] = useState(() => formatRuleSet(ruleSet));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Follow rule sets loaded from storage after mount
+  useEffect(() => {
+    setText(formatRuleSet(ruleSet));
+  }, [ruleSet]);
+
+  const applyRules = () => {
+    try {
+      onChange(parseRuleSet(text));
+      setParseError(null);
+    } catch (error) {
+      setParseError(
+        error instanceof Error ? error.message : "Invalid rule set"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder='{ "name": "...", "rules": [ ... ], "zones": [ ... ] }'
+        className="font-mono text-xs min-h-48"
+        spellCheck={false}
+      />
+      {parseError && <p className="text-xs text-red-600">{parseError}</p>}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={applyRules}>
+          <Check className="h-4 w-4" />
+          Apply
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setText(formatRuleSet(EXAMPLE_RULE_SET))}
+        >
+          <FileCode className="h-4 w-4" />
+          Load example
+        </Button>
+        {ruleSet && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onChange(null);
+              setParseError(null);
+            }}
+          >
+            <X className="h-4 w-4" />
+            Remove rules
+          </Button>
+        )}
+      </div>
+      {ruleSet ? (
+        <ul className="text-xs text-gray-600 list-disc pl-4">
+          {ruleSet.rules.map((rule) => (
+            <li key={rule.id}>
+              {rule.description || rule.id} ({rule.require})
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">
+          No rules in use: verdicts follow the site profile only.
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Each rule requires one PPE item whenever its condition holds:{" "}
+        <code>always</code>, <code>inZone</code>, <code>personCount</code>,{" "}
+        <code>itemStatus</code>, <code>personConfidence</code>,{" "}
+        <code>boxArea</code>, combined with <code>and</code>, <code>or</code>{" "}
+        and <code>not</code>. Zones are polygons in image ratios.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { CheckCircle, CircleHelp, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ComplianceVerdict, ImageVerdict } from "@/lib/compliance";
+
+const VERDICT_STYLES: Record<ComplianceVerdict, string> = {
+  Compliant: "bg-green-100 text-green-700",
+  "Non-compliant": "bg-red-100 text-red-700",
+  "Needs review": "bg-yellow-100 text-yellow-800",
+};
+
+const VERDICT_ICONS = {
+  Compliant: CheckCircle,
+  "Non-compliant": XCircle,
+  "Needs review": CircleHelp,
+};
+
+export function VerdictBadge({ verdict }: { verdict: ComplianceVerdict }) {
+  const Icon = VERDICT_ICONS[verdict];
+  return (
+    <Badge className={VERDICT_STYLES[verdict]}>
+      <Icon />
+      {verdict}
+    </Badge>
+  );
+}
+
+// Image verdict with one chip per person, shown above the result cards
+export function ComplianceSummary({
+  imageVerdict,
+  onPersonSelect,
+}: {
+  imageVerdict: ImageVerdict;
+  onPersonSelect?: (personId: number) => void;
+}) {
+  const { verdict, compliant, total, persons } = imageVerdict;
+  return (
+    <div className="flex flex-wrap items-center gap-2 border rounded p-2 bg-gray-50 text-sm">
+      <VerdictBadge verdict={verdict} />
+      <span className="font-semibold">
+        {compliant} of {total} {total === 1 ? "person" : "persons"} compliant
+      </span>
+      <div className="flex flex-wrap gap-1 ml-auto">
+        {persons.map((person) => (
+          <button
+            key={person.personId}
+            type="button"
+            onClick={() => onPersonSelect?.(person.personId)}
+            title={
+              person.missingItems.length > 0
+                ? `Missing: ${person.missingItems
+                    .map((item) => item.label)
+                    .join(", ")}`
+                : person.verdict
+            }
+          >
+            <Badge className={VERDICT_STYLES[person.verdict]}>
+              #{person.personId}
+              {person.isManual && " (manual)"}
+            </Badge>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { APIConfig } from "@/lib/api";
+import { clampConfidence } from "@/lib/api-config";
+
+type ConfidenceInputProps = Omit<
+  React.ComponentProps<typeof Input>,
+  "type" | "value" | "onChange" | "min" | "max" | "step"
+> & {
+  value: number;
+  config: APIConfig;
+  onCommit: (value: number) => void;
+};
+
+// Confidence percentage input. What is typed stays a draft until blur or
+// Enter, so values passed through on the way ("" or "8" while typing "85")
+// never reach the thresholds; the committed value is clamped to the range.
+export function ConfidenceInput({
+  value,
+  config,
+  onCommit,
+  onBlur,
+  onKeyDown,
+  ...props
+}: ConfidenceInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const { min, max, step } = config.confidence_range;
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    const parsed = Number(draft);
+    // An empty or unreadable draft keeps the current value
+    if (draft.trim() !== "" && Number.isFinite(parsed)) {
+      onCommit(clampConfidence(parsed, config));
+    }
+  };
+
+  return (
+    <Input
+      {...props}
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => {
+        commit();
+        onBlur?.(e);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(null);
+        onKeyDown?.(e);
+      }}
+    />
+  );
+}
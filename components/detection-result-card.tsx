@@ -0,0 +1,288 @@
+import Image from "next/image";
+import { format } from "date-fns";
+import { UserCheck } from "lucide-react";
+import {
+  DetectionResult,
+  PPEItemResult,
+  getItemResult,
+  isNotCovering,
+} from "@/lib/api";
+import { PPE_ITEMS, SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import type { StatusChange } from "@/lib/thresholds";
+import {
+  getPersonVerdict,
+  getRuleFindings,
+  getRuleRequiredItems,
+  type PersonVerdict,
+} from "@/lib/compliance";
+import {
+  DEFAULT_REQUIREMENT_PROFILE,
+  getRequirement,
+  PPE_REQUIREMENT_LABELS,
+  type PPERequirement,
+  type RequirementProfile,
+} from "@/lib/requirement-profiles";
+import { VerdictBadge } from "@/components/compliance-verdict";
+import { Badge } from "@/components/ui/badge";
+import { isManualResult } from "@/lib/manual-persons";
+import { StatusOverrideEditor } from "@/components/status-override-editor";
+import {
+  findOverride,
+  type AppliedOverride,
+  type StatusOverride,
+} from "@/lib/overrides";
+
+const UNSUPPORTED_PPE_ITEMS = PPE_ITEMS.filter((item) => !item.supported);
+
+// Colour of a status. Missing or undecided items only show as a problem when
+// the site profile, or a compliance rule, requires them.
+export function getStatusColor(
+  status: string,
+  requirement: PPERequirement = "required"
+) {
+  if (
+    requirement !== "required" &&
+    (status === "Not Detected" || status === "Indeterminate")
+  ) {
+    return "text-gray-500";
+  }
+  switch (status) {
+    case "Detected":
+      return "text-green-600";
+    case "Not Detected":
+      return "text-red-600";
+    case "Indeterminate":
+      return "text-yellow-600 font-bold";
+    case "Not Visible":
+    case "Not Supported":
+      return "text-gray-500 italic";
+    default:
+      return "text-gray-600";
+  }
+}
+
+// Equipment found on the image but not worn on the body part
+function CoverageNote({
+  item,
+  bodyPart,
+}: {
+  item: PPEItemResult;
+  bodyPart: string;
+}) {
+  if (!isNotCovering(item)) {
+    return null;
+  }
+
+  return (
+    <p className="text-xs text-orange-600 text-right -mt-1">
+      Detected but not covering {bodyPart} ({item.coversBodyPart?.confidence}
+      %)
+    </p>
+  );
+}
+
+// Who overrode the status, when and why, next to what the model said
+function OverrideNote({ override }: { override: AppliedOverride }) {
+  const { original } = override;
+  return (
+    <p className="text-xs text-purple-700 text-right -mt-1">
+      Reviewed by {override.reviewer},{" "}
+      {format(new Date(override.reviewedAt), "d MMM yyyy, HH:mm")}:{" "}
+      {override.reason} (model: {original.status}
+      {original.status !== "Not Visible" && ` ${original.confidence}%`})
+    </p>
+  );
+}
+
+// DOM id of a person's card, used to scroll to it from the image viewer
+export function getResultCardId(personId: number): string {
+  return `person-result-${personId}`;
+}
+
+// Person crop and per-item PPE statuses for one detection result
+export function DetectionResultCard({
+  result,
+  profile = DEFAULT_REQUIREMENT_PROFILE,
+  verdict = getPersonVerdict(result, profile),
+  zoneNames = [],
+  changes = [],
+  highlighted = false,
+  overrides = [],
+  reviewer,
+  onOverride,
+  onRemoveOverride,
+  onHover,
+  onSelect,
+}: {
+  result: DetectionResult;
+  // Site requirement profile the verdict and colours are judged against
+  profile?: RequirementProfile;
+  // Verdict including compliance rules, which need the whole image
+  verdict?: PersonVerdict;
+  // Zones the person stands in
+  zoneNames?: string[];
+  // Items whose status changed since the detection threshold
+  changes?: StatusChange[];
+  // Linked to the person's box in the annotated image viewer
+  highlighted?: boolean;
+  // Reviewer overrides in place for the person
+  overrides?: AppliedOverride[];
+  // Prefilled as the reviewer of new overrides
+  reviewer?: string;
+  // Statuses can be overridden when given
+  onOverride?: (override: StatusOverride) => void;
+  onRemoveOverride?: (itemId: string) => void;
+  onHover?: (personId: number | null) => void;
+  onSelect?: (personId: number) => void;
+}) {
+  const ruleFindings = getRuleFindings(verdict);
+  const ruleRequiredItems = getRuleRequiredItems(verdict);
+  // Statuses set by a reviewer have no model confidence to show
+  const isManual = isManualResult(result);
+  return (
+    <div
+      id={getResultCardId(result.personId)}
+      className={`flex space-x-4 border p-3 bg-white rounded transition-shadow ${
+        highlighted
+          ? "border-yellow-400 ring-2 ring-yellow-400"
+          : "border-gray-200"
+      } ${onSelect ? "cursor-pointer" : ""}`}
+      onMouseEnter={() => onHover?.(result.personId)}
+      onMouseLeave={() => onHover?.(null)}
+      onClick={() => onSelect?.(result.personId)}
+    >
+      {/* Person Image */}
+      <div className="flex-shrink-0">
+        <Image
+          src={result.image || "/placeholder.svg"}
+          alt={`Person ${result.personId} with PPE detection`}
+          width={120}
+          height={120}
+          className="rounded object-cover border"
+        />
+      </div>
+
+      {/* Detection Results Table */}
+      <div className="flex-1 border border-gray-300 p-3 bg-gray-50">
+        <div className="flex items-start justify-between gap-2 mb-3">
+          <div>
+            <h4 className="font-bold text-lg">
+              Person ID: {result.personId}{" "}
+              {isManual ? (
+                <Badge className="bg-violet-100 text-violet-800 align-middle">
+                  Added manually
+                </Badge>
+              ) : (
+                `(${result.confidence}%)`
+              )}
+            </h4>
+            {zoneNames.length > 0 && (
+              <p className="text-xs text-blue-700">
+                Zone: {zoneNames.join(", ")}
+              </p>
+            )}
+          </div>
+          <VerdictBadge verdict={verdict.verdict} />
+        </div>
+        <div className="space-y-2 text-sm">
+          {SUPPORTED_PPE_ITEMS.map((item) => {
+            const itemResult = getItemResult(result, item.id);
+            const change = changes.find((c) => c.itemId === item.id);
+            const override = findOverride(overrides, result.personId, item.id);
+            const requirement = getRequirement(profile, item.id);
+            const status = (
+              <span
+                className={`font-semibold inline-flex items-center gap-1 ${getStatusColor(
+                  itemResult.status,
+                  ruleRequiredItems.includes(item.id) ? "required" : requirement
+                )}`}
+              >
+                {override && (
+                  <UserCheck
+                    className="h-3.5 w-3.5 text-purple-700"
+                    aria-label="Overridden by a reviewer"
+                  />
+                )}
+                {itemResult.status}
+                {!override &&
+                  !isManual &&
+                  itemResult.status !== "Not Visible" &&
+                  ` (${itemResult.confidence}%)`}
+              </span>
+            );
+            return (
+              <div
+                key={item.id}
+                className={requirement === "not-applicable" ? "opacity-60" : ""}
+              >
+                <div className="flex justify-between">
+                  <span className="font-medium flex items-center gap-1">
+                    <PPEItemIcon item={item} className="h-4 w-4" />
+                    {item.label}
+                    {requirement !== "required" && (
+                      <span className="text-xs font-normal text-gray-500">
+                        ({PPE_REQUIREMENT_LABELS[requirement].toLowerCase()})
+                      </span>
+                    )}{" "}
+                    –
+                  </span>
+                  {onOverride ? (
+                    <StatusOverrideEditor
+                      personId={result.personId}
+                      itemId={item.id}
+                      itemLabel={item.label}
+                      override={override}
+                      defaultReviewer={reviewer}
+                      onSave={onOverride}
+                      onRemove={() => onRemoveOverride?.(item.id)}
+                    >
+                      {status}
+                    </StatusOverrideEditor>
+                  ) : (
+                    status
+                  )}
+                </div>
+                {override && <OverrideNote override={override} />}
+                {change && !override && (
+                  <p className="text-xs text-blue-700 text-right -mt-1">
+                    Changed from {change.from}
+                  </p>
+                )}
+                <CoverageNote item={itemResult} bodyPart={item.bodyPartLabel} />
+              </div>
+            );
+          })}
+        </div>
+        {verdict.missingItems.length > 0 && (
+          <p className="text-xs text-red-600 mt-3">
+            Missing: {verdict.missingItems.map((item) => item.label).join(", ")}
+          </p>
+        )}
+        {ruleFindings.length > 0 && (
+          <ul className="text-xs mt-2 space-y-1">
+            {ruleFindings.map((finding) => (
+              <li
+                key={finding.ruleId}
+                className={
+                  finding.outcome === "violated"
+                    ? "text-red-600"
+                    : "text-yellow-700"
+                }
+              >
+                {finding.outcome === "violated" ? "Rule broken" : "To review"}:{" "}
+                {finding.explanation}
+              </li>
+            ))}
+          </ul>
+        )}
+        {UNSUPPORTED_PPE_ITEMS.length > 0 && (
+          <p className="text-xs text-gray-500 mt-3">
+            Not assessed:{" "}
+            {UNSUPPORTED_PPE_ITEMS.map((item) => item.label).join(", ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
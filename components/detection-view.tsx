@@ -0,0 +1,561 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Upload,
+  ArrowDown,
+  ArrowUp,
+  Camera,
+  FileText,
+  AlertCircle,
+} from "lucide-react";
+import Image from "next/image";
+import { formatFileSize } from "@/lib/image-preprocess";
+import {
+  clampConfidence,
+  CONVERTIBLE_FORMATS,
+  describeFormats,
+} from "@/lib/api-config";
+import {
+  DetectionResultCard,
+  getResultCardId,
+} from "@/components/detection-result-card";
+import { AnnotatedImageViewer } from "@/components/annotated-image-viewer";
+import { ConfidenceInput } from "@/components/confidence-input";
+import {
+  ComplianceSummary,
+  VerdictBadge,
+} from "@/components/compliance-verdict";
+import { CameraCapture } from "@/components/camera-capture";
+import { RequirementProfileSettings } from "@/components/requirement-profile-settings";
+import { ZoneEditor } from "@/components/zone-editor";
+import { ManualPersonEditor } from "@/components/manual-person-editor";
+import { InspectionDetailsForm } from "@/components/inspection-details-form";
+import { APIErrorAlert } from "@/components/api-error-alert";
+import { useAnalysis } from "@/components/analysis-provider";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+
+// Single-image detection: upload, detect, review each person and print the
+// report. The analysis itself lives in the AnalysisProvider so it is still
+// here after visiting other routes.
+export function DetectionView() {
+  const {
+    apiConfig,
+    isConnected,
+    confidence,
+    setConfidence,
+    ruleSet,
+    profile,
+    selectProfile,
+    uploadedImage,
+    rawResults,
+    hasDetected,
+    manualPersons,
+    addManualPerson,
+    removeManualPerson,
+    zones,
+    setZones,
+    inspection,
+    setInspection,
+    currentInspectionId,
+    preprocessed,
+    isProcessing,
+    error,
+    evaluatedResults,
+    allZones,
+    results,
+    excludedResults,
+    zoneNames,
+    imageVerdict,
+    statusChanges,
+    appliedOverrides,
+    saveOverride,
+    clearOverride,
+    processFileUpload,
+    processImage,
+    printReport,
+  } = useAnalysis();
+  // Person linked between the annotated image and the result cards
+  const [hoveredPersonId, setHoveredPersonId] = useState<number | null>(null);
+  const [selectedPersonId, setSelectedPersonId] = useState<number | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Camera capture: inline on wide screens, in a drawer on phones and tablets
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const isMobile = useIsMobile();
+
+  // A new image starts without a selected person
+  useEffect(() => {
+    setSelectedPersonId(null);
+  }, [uploadedImage]);
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      processFileUpload(file);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const files = e.dataTransfer.files;
+    if (files.length > 0) {
+      processFileUpload(files[0]);
+    }
+  };
+
+  // Captures are detected straight away so the crew can be checked on the spot
+  const handleCapture = (file: File) => {
+    processFileUpload(file, { detect: true });
+  };
+
+  const cameraCapture = (
+    <CameraCapture
+      onCapture={handleCapture}
+      busy={isProcessing}
+      disabled={!isConnected}
+      status={
+        results.length > 0 ? (
+          <div className="flex items-center gap-2">
+            <VerdictBadge verdict={imageVerdict.verdict} />
+            <span className="font-semibold">
+              {imageVerdict.compliant} of {imageVerdict.total} compliant
+            </span>
+          </div>
+        ) : isConnected === false ? (
+          <p className="text-xs text-red-600">
+            Not connected to the detection service.
+          </p>
+        ) : null
+      }
+    />
+  );
+
+  const { min: minConfidence, max: maxConfidence, step: confidenceStep } =
+    apiConfig.confidence_range;
+
+  // Clicking a box in the image scrolls to that person's card
+  const selectPersonInImage = (personId: number) => {
+    setSelectedPersonId(personId);
+    document
+      .getElementById(getResultCardId(personId))
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  };
+
+  const increaseConfidence = () => {
+    setConfidence((prev) => clampConfidence(prev + confidenceStep, apiConfig));
+  };
+
+  const decreaseConfidence = () => {
+    setConfidence((prev) => clampConfidence(prev - confidenceStep, apiConfig));
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Input Section */}
+        <Card className="border-2 border-black">
+          <CardContent className="space-y-4">
+            <div className="bg-gray-50 p-4 border border-gray-300 text-sm">
+              <p className="font-semibold mb-2">
+                Detection of Personal Protective Equipment (PPE) covering Head,
+                Face and Hands
+              </p>
+              <div className="space-y-1">
+                <p className="font-semibold">Instructions:</p>
+                <p>
+                  1. Drag and drop an image (
+                  {describeFormats([
+                    ...apiConfig.supported_formats,
+                    ...CONVERTIBLE_FORMATS,
+                  ])}
+                  ). Large photos are resized before upload.
+                </p>
+                <p>
+                  2. Select the required minimum confidence threshold (
+                  {minConfidence} – {maxConfidence}%) regarding the detection of
+                  PPE on a body part to be included in the summary results.
+                </p>
+                <p>3. Click "Go" to see detection results.</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant={isCameraOn ? "outline" : "default"}
+                size="sm"
+                onClick={() => setIsCameraOn(false)}
+              >
+                <Upload className="h-4 w-4" />
+                Upload image
+              </Button>
+              <Button
+                variant={isCameraOn ? "default" : "outline"}
+                size="sm"
+                onClick={() => setIsCameraOn(true)}
+              >
+                <Camera className="h-4 w-4" />
+                Camera
+              </Button>
+            </div>
+
+            {isCameraOn && !isMobile ? (
+              cameraCapture
+            ) : (
+              /* Image Upload Area */
+              <div
+                className="border-4 border-blue-400 border-dashed rounded-lg p-6 text-center bg-blue-50"
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+              >
+                {uploadedImage ? (
+                  <div className="relative group">
+                    <div
+                      className="cursor-pointer"
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <Image
+                        src={uploadedImage || "/placeholder.svg"}
+                        alt="Uploaded image"
+                        width={400}
+                        height={300}
+                        className="mx-auto rounded-lg object-cover"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    className="cursor-pointer"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                    <p className="text-gray-600">Drag and drop an image here</p>
+                    <p className="text-sm text-gray-500 mt-2">
+                      Supports{" "}
+                      {describeFormats([
+                        ...apiConfig.supported_formats,
+                        ...CONVERTIBLE_FORMATS,
+                      ])}{" "}
+                      images
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Up to {formatFileSize(apiConfig.max_file_size)} after
+                      resizing
+                    </p>
+                  </div>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleImageUpload}
+                  className="hidden"
+                />
+              </div>
+            )}
+
+            <Drawer
+              open={isCameraOn && isMobile}
+              onOpenChange={(open) => !open && setIsCameraOn(false)}
+            >
+              <DrawerContent>
+                <DrawerHeader>
+                  <DrawerTitle>Camera</DrawerTitle>
+                  <DrawerDescription>
+                    Point the camera at the crew and capture to check their PPE.
+                  </DrawerDescription>
+                </DrawerHeader>
+                <div className="overflow-y-auto px-4">{cameraCapture}</div>
+                <DrawerFooter>
+                  <DrawerClose asChild>
+                    <Button variant="outline">View results</Button>
+                  </DrawerClose>
+                </DrawerFooter>
+              </DrawerContent>
+            </Drawer>
+
+            <RequirementProfileSettings
+              profile={profile}
+              onChange={selectProfile}
+            />
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center space-x-4">
+                <Label htmlFor="confidence" className="font-semibold">
+                  Required confidence
+                </Label>
+                <div className="flex items-center space-x-2">
+                  <ConfidenceInput
+                    id="confidence"
+                    value={confidence}
+                    config={apiConfig}
+                    onCommit={setConfidence}
+                    className="w-20 text-center"
+                  />
+                  <span>%</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={decreaseConfidence}
+                    className="p-1 bg-transparent"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={increaseConfidence}
+                    className="p-1 bg-transparent"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Button
+                onClick={processImage}
+                disabled={!uploadedImage || isProcessing || !isConnected}
+                className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold px-8 py-2 disabled:opacity-50"
+              >
+                {isProcessing
+                  ? "Processing..."
+                  : isConnected === false
+                  ? "API Disconnected"
+                  : "GO"}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Per-item thresholds, compliance rules
+              {ruleSet && ` (in use: ${ruleSet.name})`} and the detection
+              source are under{" "}
+              <Link href="/settings" className="underline">
+                Settings
+              </Link>
+              .
+            </p>
+
+            <Accordion type="single" collapsible defaultValue="inspection">
+              <AccordionItem value="inspection">
+                <AccordionTrigger className="text-sm font-semibold">
+                  Inspection details
+                  {inspection.siteName && ` (${inspection.siteName})`}
+                </AccordionTrigger>
+                <AccordionContent>
+                  <InspectionDetailsForm
+                    key={currentInspectionId ?? "new"}
+                    details={inspection}
+                    onChange={setInspection}
+                  />
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+
+            {preprocessed?.changed && (
+              <p className="text-xs text-gray-600">
+                Uploaded as {preprocessed.width}×{preprocessed.height} JPEG,{" "}
+                {formatFileSize(preprocessed.processedSize)} (original{" "}
+                {preprocessed.originalWidth}×{preprocessed.originalHeight},{" "}
+                {formatFileSize(preprocessed.originalSize)})
+              </p>
+            )}
+
+            {error && <APIErrorAlert message={error.message} code={error.code} />}
+          </CardContent>
+        </Card>
+
+        {/* Results Section */}
+        <Card className="border-2 border-black contain-size">
+          <CardContent className="space-y-4 h-full flex flex-col">
+            {results.length > 0 ? (
+              <>
+                {/* Individual Person Detection Results */}
+                <div className="border border-gray-300 bg-white flex-1 overflow-hidden flex flex-col">
+                  <h3 className="font-semibold p-3 border-b bg-gray-50">
+                    Detection Results
+                  </h3>
+                  <div className="overflow-y-auto p-3 space-y-4 flex-1">
+                    <ComplianceSummary
+                      imageVerdict={imageVerdict}
+                      onPersonSelect={selectPersonInImage}
+                    />
+                    {excludedResults.length > 0 && (
+                      <p className="text-sm text-gray-600">
+                        {excludedResults.length}{" "}
+                        {excludedResults.length === 1 ? "person" : "persons"} in
+                        exclusion zones not assessed.
+                      </p>
+                    )}
+                    {statusChanges.length > 0 && (
+                      <p className="text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded p-2">
+                        Statuses re-evaluated with the current thresholds:{" "}
+                        {statusChanges.length} item
+                        {statusChanges.length === 1 ? "" : "s"} changed since
+                        the detection.
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Click a status to override it.
+                      {appliedOverrides.length > 0 &&
+                        ` ${appliedOverrides.length} ${
+                          appliedOverrides.length === 1
+                            ? "status was"
+                            : "statuses were"
+                        } overridden by a reviewer.`}
+                    </p>
+                    {/* The model's own count: persons added by hand or
+                        left out by exclusion zones do not change it */}
+                    {rawResults.length > apiConfig.max_persons_per_image && (
+                      <Alert>
+                        <AlertCircle />
+                        <AlertDescription>
+                          {rawResults.length} persons found, more than the{" "}
+                          {apiConfig.max_persons_per_image} the detection
+                          service supports per image. Some persons may be
+                          missed; consider cropping the photo into smaller
+                          areas.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {results.map((result, index) => (
+                      <DetectionResultCard
+                        key={result.personId}
+                        result={result}
+                        profile={profile}
+                        verdict={imageVerdict.persons[index]}
+                        zoneNames={zoneNames[result.personId]}
+                        changes={statusChanges.filter(
+                          (change) => change.personId === result.personId
+                        )}
+                        highlighted={
+                          result.personId === (hoveredPersonId ?? selectedPersonId)
+                        }
+                        overrides={appliedOverrides.filter(
+                          (override) => override.personId === result.personId
+                        )}
+                        reviewer={inspection.inspectorName}
+                        onOverride={saveOverride}
+                        onRemoveOverride={(itemId) =>
+                          clearOverride(result.personId, itemId)
+                        }
+                        onHover={setHoveredPersonId}
+                        onSelect={setSelectedPersonId}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {/* Print to PDF Button */}
+                <div className="flex items-center justify-end gap-4">
+                  {currentInspectionId && (
+                    <Link
+                      href={`/inspections/${currentInspectionId}`}
+                      className="text-xs text-gray-500 underline"
+                    >
+                      Saved to history
+                    </Link>
+                  )}
+                  <Button
+                    onClick={printReport}
+                    className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold px-8 py-2"
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Print to PDF
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                {excludedResults.length > 0
+                  ? `All ${excludedResults.length} persons found are in exclusion zones.`
+                  : hasDetected &&
+                    "No persons detected. Add any the detection missed under Missed Persons."}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Where each person is on the original image */}
+      {uploadedImage && results.length > 0 && (
+        <Card className="border-2 border-black mt-6">
+          <CardHeader>
+            <CardTitle>Annotated Image</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AnnotatedImageViewer
+              imageSrc={uploadedImage}
+              results={results}
+              zones={allZones}
+              highlightedPersonId={hoveredPersonId ?? selectedPersonId}
+              onPersonHover={setHoveredPersonId}
+              onPersonSelect={selectPersonInImage}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Persons the detection missed, added by hand */}
+      {uploadedImage && hasDetected && (
+        <Card className="border-2 border-black mt-6">
+          <CardHeader>
+            <CardTitle>Missed Persons</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ManualPersonEditor
+              imageSrc={uploadedImage}
+              results={rawResults}
+              manualPersons={manualPersons}
+              onAdd={addManualPerson}
+              onRemove={removeManualPerson}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Areas of the image; exclusion zones are not assessed */}
+      {uploadedImage && (
+        <Card className="border-2 border-black mt-6">
+          <CardHeader>
+            <CardTitle>Zones</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ZoneEditor
+              imageSrc={uploadedImage}
+              zones={zones}
+              onChange={setZones}
+              results={evaluatedResults}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  EMPTY_INSPECTION_DETAILS,
+  InspectionDetailsSchema,
+  loadInspectionDefaults,
+  storeInspectionDefaults,
+  type InspectionDetails,
+} from "@/lib/inspection";
+
+interface InspectionDetailsFormProps {
+  details: InspectionDetails;
+  onChange: (details: InspectionDetails) => void;
+}
+
+type TextFieldName = Exclude<
+  keyof InspectionDetails,
+  "conditions" | "observations"
+>;
+
+const TEXT_FIELDS: { name: TextFieldName; label: string; placeholder: string }[] =
+  [
+    { name: "siteName", label: "Site name", placeholder: "e.g. Harbour Tower" },
+    { name: "jobNumber", label: "Project / job number", placeholder: "e.g. GC-2041" },
+    { name: "location", label: "Location", placeholder: "e.g. Level 3, east wing" },
+    { name: "inspectorName", label: "Inspector", placeholder: "Full name" },
+  ];
+
+// Site, job and inspector details attached to the analysis and its report.
+// Values are reported as they are typed; the site, job, location and
+// inspector are remembered for the next inspection.
+export function InspectionDetailsForm({
+  details,
+  onChange,
+}: InspectionDetailsFormProps) {
+  const form = useForm<InspectionDetails>({
+    resolver: zodResolver(InspectionDetailsSchema),
+    defaultValues: details,
+    mode: "onTouched",
+  });
+  const { reset, watch } = form;
+
+  // Start a new inspection from the remembered defaults, which are only
+  // available after mount. Details already entered (e.g. when the form is
+  // shown again) are kept.
+  const isNewInspection = details === EMPTY_INSPECTION_DETAILS;
+  useEffect(() => {
+    if (!isNewInspection) return;
+    const defaults = loadInspectionDefaults();
+    reset(defaults);
+    onChange(defaults);
+  }, [isNewInspection, reset, onChange]);
+
+  useEffect(() => {
+    const subscription = watch((values) => {
+      const next = values as InspectionDetails;
+      onChange(next);
+      storeInspectionDefaults(next);
+    });
+    return () => subscription.unsubscribe();
+  }, [watch, onChange]);
+
+  return (
+    <Form {...form}>
+      <form
+        className="grid gap-3 sm:grid-cols-2"
+        onSubmit={(e) => e.preventDefault()}
+      >
+        {TEXT_FIELDS.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: input }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input placeholder={field.placeholder} {...input} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <FormField
+          control={form.control}
+          name="conditions"
+          render={({ field }) => (
+            <FormItem className="sm:col-span-2">
+              <FormLabel>Weather / lighting</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Overcast, low sun from the west" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="observations"
+          render={({ field }) => (
+            <FormItem className="sm:col-span-2">
+              <FormLabel>Observations</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { endOfDay, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import {
+  CalendarIcon,
+  FileText,
+  FolderOpen,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { VerdictBadge } from "@/components/compliance-verdict";
+import {
+  deleteInspection,
+  getInspectionVerdict,
+  isHistoryAvailable,
+  listInspections,
+  openInspection,
+  type InspectionRecord,
+} from "@/lib/inspection-history";
+import { mergeZones } from "@/lib/zones";
+import { generatePPEDetectionPDF } from "@/lib/pdf-utils";
+import { loadExportRedaction } from "@/lib/redaction";
+
+const PAGE_SIZE = 10;
+
+// Page numbers to show: the first, the last and the ones around the current
+// page, with null where pages are skipped
+function getPageNumbers(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+// Saved analyses with search by site or inspector and a date range. Each one
+// can be reopened at /inspections/[id] or reported on again.
+export function InspectionHistory() {
+  const [records, setRecords] = useState<InspectionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [page, setPage] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // IndexedDB is only available after mount
+  useEffect(() => {
+    if (!isHistoryAvailable()) {
+      setError("This browser does not allow storing inspection history.");
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    listInspections({
+      from: range?.from && startOfDay(range.from),
+      to: range?.to ? endOfDay(range.to) : range?.from && endOfDay(range.from),
+      query,
+    })
+      .then((loaded) => {
+        if (cancelled) return;
+        setRecords(loaded);
+        setError(null);
+      })
+      .catch((loadError) => {
+        console.error("Could not load inspection history:", loadError);
+        if (!cancelled) setError("Could not load inspection history.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, range]);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => setPage(1), [query, range]);
+
+  const pageCount = Math.max(1, Math.ceil(records.length / PAGE_SIZE));
+  // Stay on a page that exists after deleting the last record of a page
+  useEffect(() => setPage((prev) => Math.min(prev, pageCount)), [pageCount]);
+  const pageRecords = records.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Report on a saved analysis with the settings it was last saved with
+  const regeneratePDF = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const inspection = await openInspection(id);
+      if (!inspection) {
+        setError("This inspection is no longer stored.");
+        return;
+      }
+      await generatePPEDetectionPDF({
+        results: [...inspection.results, ...(inspection.manualPersons ?? [])],
+        originalImage: inspection.image,
+        confidence: inspection.thresholds.default.detected,
+        thresholds: inspection.thresholds,
+        profile: inspection.profile,
+        ruleSet: inspection.ruleSet,
+        zones: mergeZones(inspection.zones, inspection.ruleSet?.zones),
+        inspection: inspection.inspection,
+        overrides: inspection.overrides,
+        redaction: {
+          mode: loadExportRedaction().pdf,
+          regions: inspection.redactionRegions,
+        },
+        timestamp: new Date(inspection.createdAt),
+      });
+    } catch (pdfError) {
+      console.error("Error generating PDF:", pdfError);
+      setError("Failed to generate PDF. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeRecord = async (id: string) => {
+    setBusyId(id);
+    try {
+      await deleteInspection(id);
+      setRecords((prev) => prev.filter((record) => record.id !== id));
+    } catch (deleteError) {
+      console.error("Could not delete inspection:", deleteError);
+      setError("Could not delete the inspection.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const rangeLabel = range?.from
+    ? range.to && range.to.getTime() !== range.from.getTime()
+      ? `${format(range.from, "d MMM yyyy")} – ${format(range.to, "d MMM yyyy")}`
+      : format(range.from, "d MMM yyyy")
+    : "Any date";
+
+  return (
+    <div className="border-2 border-black bg-white">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b bg-gray-50">
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search site or inspector"
+            className="w-64 pl-8"
+          />
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="font-normal">
+              <CalendarIcon className="h-4 w-4" />
+              {rangeLabel}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              numberOfMonths={2}
+            />
+          </PopoverContent>
+        </Popover>
+        {range && (
+          <Button variant="ghost" size="sm" onClick={() => setRange(undefined)}>
+            <X className="h-4 w-4" />
+            Clear dates
+          </Button>
+        )}
+        <span className="ml-auto text-sm text-gray-600">
+          {records.length} {records.length === 1 ? "inspection" : "inspections"}
+        </span>
+      </div>
+
+      {error && <p className="p-3 text-sm text-red-600">{error}</p>}
+
+      {/* Saved analyses, newest first */}
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading...</div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          {query || range
+            ? "No inspections match the filters"
+            : "Analyses are saved here after each detection"}
+        </div>
+      ) : (
+        <div className="divide-y">
+          {pageRecords.map((record) => {
+            const imageVerdict = getInspectionVerdict(record);
+            const { siteName, jobNumber, inspectorName } = record.inspection;
+            return (
+              <div
+                key={record.id}
+                className="flex flex-wrap items-center gap-3 p-3 text-sm"
+              >
+                <div className="min-w-48 flex-1">
+                  <p className="font-semibold">
+                    {siteName || "No site"}
+                    {jobNumber && ` · ${jobNumber}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(record.createdAt, "d MMM yyyy, HH:mm")} ·{" "}
+                    {inspectorName || "No inspector"} · {record.fileName}
+                  </p>
+                </div>
+                {imageVerdict.total > 0 && (
+                  <>
+                    <VerdictBadge verdict={imageVerdict.verdict} />
+                    <span className="text-xs text-gray-600">
+                      {imageVerdict.compliant} of {imageVerdict.total} compliant
+                    </span>
+                  </>
+                )}
+                <div className="flex gap-1">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/inspections/${record.id}`}>
+                      <FolderOpen className="h-4 w-4" />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => regeneratePDF(record.id)}
+                  >
+                    <FileText className="h-4 w-4" />
+                    PDF
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => removeRecord(record.id)}
+                    aria-label={`Delete inspection of ${format(
+                      record.createdAt,
+                      "d MMM yyyy, HH:mm"
+                    )}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <Pagination className="p-3 border-t">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page === 1}
+                className={page === 1 ? "pointer-events-none opacity-50" : ""}
+                onClick={(e) => {
+                  e.preventDefault();
+                  setPage((prev) => Math.max(1, prev - 1));
+                }}
+              />
+            </PaginationItem>
+            {getPageNumbers(page, pageCount).map((number, index) => (
+              <PaginationItem key={number ?? `gap-${index}`}>
+                {number === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    href="#"
+                    isActive={number === page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(number);
+                    }}
+                  >
+                    {number}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={page === pageCount}
+                className={
+                  page === pageCount ? "pointer-events-none opacity-50" : ""
+                }
+                onClick={(e) => {
+                  e.preventDefault();
+                  setPage((prev) => Math.min(pageCount, prev + 1));
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
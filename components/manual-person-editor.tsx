@@ -0,0 +1,241 @@
+"use client";
+
+import type React from "react";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import type { BoundingBox, DetectionResult } from "@/lib/api";
+import {
+  getBoxFromCorners,
+  isBoxLargeEnough,
+  MANUAL_STATUSES,
+  type ManualStatus,
+} from "@/lib/manual-persons";
+import { SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import type { ZonePoint } from "@/lib/zones";
+
+interface ManualPersonEditorProps {
+  imageSrc: string;
+  // Persons found by the model, drawn for reference
+  results: DetectionResult[];
+  manualPersons: DetectionResult[];
+  onAdd: (
+    boundingBox: BoundingBox,
+    statuses: Record<string, ManualStatus>
+  ) => Promise<void>;
+  onRemove: (personId: number) => void;
+}
+
+// Drag a box around a person the model missed, then set each PPE status by
+// hand. Added persons are assessed and reported like detected ones, marked
+// as manual.
+export function ManualPersonEditor({
+  imageSrc,
+  results,
+  manualPersons,
+  onAdd,
+  onRemove,
+}: ManualPersonEditorProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<ZonePoint | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, ManualStatus>>({});
+  const [isAdding, setIsAdding] = useState(false);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): ZonePoint | null => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDraft(getBoxFromCorners(point, point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(e);
+    if (!dragStart || !point) return;
+    setDraft(getBoxFromCorners(dragStart, point));
+  };
+
+  const handlePointerUp = () => {
+    setDragStart(null);
+    // A click without a drag starts over
+    if (draft && !isBoxLargeEnough(draft)) setDraft(null);
+  };
+
+  const isComplete =
+    draft !== null &&
+    !dragStart &&
+    SUPPORTED_PPE_ITEMS.every((item) => statuses[item.id] !== undefined);
+
+  const addPerson = async () => {
+    if (!draft || !isComplete) return;
+    setIsAdding(true);
+    try {
+      await onAdd(draft, statuses);
+      setDraft(null);
+      setStatuses({});
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const boxRect = (
+    box: BoundingBox,
+    key: string | number,
+    stroke: string,
+    dashed = false
+  ) => (
+    <rect
+      key={key}
+      x={box.x}
+      y={box.y}
+      width={box.width}
+      height={box.height}
+      fill="none"
+      stroke={stroke}
+      strokeWidth={2}
+      strokeDasharray={dashed ? "4 3" : undefined}
+      vectorEffect="non-scaling-stroke"
+    />
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Drawing surface: the SVG uses image ratios as coordinates */}
+      <div
+        ref={surfaceRef}
+        className="relative border bg-gray-100 cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <Image
+          src={imageSrc}
+          alt="Image to draw missed persons on"
+          width={1200}
+          height={900}
+          className="block w-full h-auto"
+          draggable={false}
+        />
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          {results.map(
+            (result) =>
+              result.boundingBox &&
+              boxRect(result.boundingBox, result.personId, "#6b7280", true)
+          )}
+          {manualPersons.map(
+            (person) =>
+              person.boundingBox &&
+              boxRect(person.boundingBox, person.personId, "#7c3aed")
+          )}
+          {draft && boxRect(draft, "draft", "#f59e0b")}
+        </svg>
+      </div>
+      <p className="text-xs text-gray-500">
+        Drag a box around a person the detection missed, set the status of
+        each item and add them. Dashed boxes are the persons already found.
+      </p>
+
+      {/* Statuses of the drawn person */}
+      {draft && !dragStart && (
+        <div className="border rounded p-3 space-y-2 bg-gray-50">
+          {SUPPORTED_PPE_ITEMS.map((item) => (
+            <div key={item.id} className="flex items-center gap-2">
+              <span className="flex items-center gap-1 flex-1">
+                <PPEItemIcon item={item} className="h-4 w-4" />
+                {item.label}
+              </span>
+              <Select
+                value={statuses[item.id] ?? ""}
+                onValueChange={(value) =>
+                  setStatuses((prev) => ({
+                    ...prev,
+                    [item.id]: value as ManualStatus,
+                  }))
+                }
+              >
+                <SelectTrigger
+                  className="w-40"
+                  aria-label={`${item.label} status`}
+                >
+                  <SelectValue placeholder="Set status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2 pt-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(null);
+                setStatuses({});
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!isComplete || isAdding}
+              onClick={addPerson}
+            >
+              <UserPlus className="h-4 w-4" />
+              Add person
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {manualPersons.length > 0 && (
+        <ul className="space-y-1">
+          {manualPersons.map((person) => (
+            <li key={person.personId} className="flex items-center gap-2">
+              <span className="h-3 w-3 rounded-sm bg-violet-600" />
+              <span className="font-medium">Person {person.personId}</span>
+              <span className="text-xs text-gray-500">added manually</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => onRemove(person.personId)}
+                aria-label={`Remove person ${person.personId}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
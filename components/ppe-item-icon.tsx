@@ -0,0 +1,33 @@
+import {
+  Footprints,
+  Glasses,
+  Hand,
+  HardHat,
+  ScanFace,
+  Shield,
+  Shirt,
+  type LucideIcon,
+} from "lucide-react";
+import type { PPEItemDefinition } from "@/lib/ppe-items";
+
+// Icons referenced by name from the PPE item registry. Unknown names fall
+// back to a generic shield so new registry entries render without changes here.
+const PPE_ICONS: Record<string, LucideIcon> = {
+  Footprints,
+  Glasses,
+  Hand,
+  HardHat,
+  ScanFace,
+  Shirt,
+};
+
+export function PPEItemIcon({
+  item,
+  className,
+}: {
+  item: PPEItemDefinition;
+  className?: string;
+}) {
+  const Icon = PPE_ICONS[item.icon] || Shield;
+  return <Icon className={className} style={{ color: item.color }} />;
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import type React from "react";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { BoundingBox, DetectionResult } from "@/lib/api";
+import { getBoxFromCorners, isBoxLargeEnough } from "@/lib/manual-persons";
+import { getFaceRegion } from "@/lib/redaction";
+import type { ZonePoint } from "@/lib/zones";
+
+interface RedactionRegionEditorProps {
+  imageSrc: string;
+  // Persons whose faces are redacted, drawn for reference
+  results: DetectionResult[];
+  regions: BoundingBox[];
+  onChange: (regions: BoundingBox[]) => void;
+}
+
+// Drag boxes over anything else to keep out of exports, such as bystanders
+// the model did not pick up or a badge. Faces are redacted without drawing.
+export function RedactionRegionEditor({
+  imageSrc,
+  results,
+  regions,
+  onChange,
+}: RedactionRegionEditorProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<ZonePoint | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): ZonePoint | null => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDraft(getBoxFromCorners(point, point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(e);
+    if (!dragStart || !point) return;
+    setDraft(getBoxFromCorners(dragStart, point));
+  };
+
+  // A region is added as soon as it is drawn; a click without a drag is
+  // ignored
+  const handlePointerUp = () => {
+    if (draft && isBoxLargeEnough(draft)) onChange([...regions, draft]);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const faceRegions = results
+    .map(getFaceRegion)
+    .filter((region): region is BoundingBox => region !== null);
+
+  const regionRect = (
+    box: BoundingBox,
+    key: string | number,
+    stroke: string,
+    dashed = false
+  ) => (
+    <rect
+      key={key}
+      x={box.x}
+      y={box.y}
+      width={box.width}
+      height={box.height}
+      fill={stroke}
+      fillOpacity={0.2}
+      stroke={stroke}
+      strokeWidth={2}
+      strokeDasharray={dashed ? "4 3" : undefined}
+      vectorEffect="non-scaling-stroke"
+    />
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Drawing surface: the SVG uses image ratios as coordinates */}
+      <div
+        ref={surfaceRef}
+        className="relative border bg-gray-100 cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <Image
+          src={imageSrc}
+          alt="Image to draw redaction regions on"
+          width={1200}
+          height={900}
+          className="block w-full h-auto"
+          draggable={false}
+        />
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          {faceRegions.map((region, index) =>
+            regionRect(region, `face-${index}`, "#6b7280", true)
+          )}
+          {regions.map((region, index) => regionRect(region, index, "#dc2626"))}
+          {draft && regionRect(draft, "draft", "#f59e0b")}
+        </svg>
+      </div>
+      <p className="text-xs text-gray-500">
+        Dashed boxes are the faces redacted for each person. Drag a box over
+        anything else to redact, such as a bystander the detection missed.
+      </p>
+
+      {regions.length > 0 && (
+        <ul className="space-y-1">
+          {regions.map((region, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className="h-3 w-3 rounded-sm bg-red-600" />
+              <span className="font-medium">Region {index + 1}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() =>
+                  onChange(regions.filter((_, other) => other !== index))
+                }
+                aria-label={`Remove region ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
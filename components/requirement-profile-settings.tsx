@@ -0,0 +1,259 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, Pencil, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import { SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import {
+  BUILT_IN_PROFILES,
+  deleteUserProfile,
+  exportRequirementProfiles,
+  getRequirement,
+  loadUserProfiles,
+  parseRequirementProfiles,
+  PPE_REQUIREMENT_LABELS,
+  PPERequirementSchema,
+  saveUserProfiles,
+  type PPERequirement,
+  type RequirementProfile,
+} from "@/lib/requirement-profiles";
+
+interface RequirementProfileSettingsProps {
+  profile: RequirementProfile;
+  onChange: (profile: RequirementProfile) => void;
+}
+
+function isSameProfile(a: RequirementProfile, b: RequirementProfile): boolean {
+  return SUPPORTED_PPE_ITEMS.every(
+    (item) => getRequirement(a, item.id) === getRequirement(b, item.id)
+  );
+}
+
+// Pick, edit, import and export the site requirement profile that verdicts
+// are judged against
+export function RequirementProfileSettings({
+  profile,
+  onChange,
+}: RequirementProfileSettingsProps) {
+  const [userProfiles, setUserProfiles] = useState<RequirementProfile[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [profileName, setProfileName] = useState(profile.name);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setUserProfiles(loadUserProfiles());
+  }, []);
+
+  useEffect(() => {
+    setProfileName(profile.name);
+  }, [profile.name]);
+
+  const profiles = [...BUILT_IN_PROFILES, ...userProfiles];
+  const savedProfile = profiles.find(
+    (candidate) => candidate.name === profile.name
+  );
+  const isModified = !savedProfile || !isSameProfile(savedProfile, profile);
+  const isUserProfile = userProfiles.some(
+    (candidate) => candidate.name === profile.name
+  );
+  const trimmedName = profileName.trim();
+  const nameIsBuiltIn = BUILT_IN_PROFILES.some(
+    (candidate) => candidate.name === trimmedName
+  );
+
+  const selectProfile = (name: string) => {
+    const selected = profiles.find((candidate) => candidate.name === name);
+    if (selected) onChange(selected);
+  };
+
+  const setRequirement = (itemId: string, requirement: PPERequirement) => {
+    onChange({
+      name: profile.name,
+      requirements: { ...profile.requirements, [itemId]: requirement },
+    });
+  };
+
+  const saveProfile = () => {
+    const saved = { name: trimmedName, requirements: profile.requirements };
+    setUserProfiles(saveUserProfiles([saved]));
+    onChange(saved);
+  };
+
+  const exportProfile = () => {
+    const blob = new Blob([exportRequirementProfiles([profile])], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${profile.name.replace(/[^\w-]+/g, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      // Imported profiles never replace the built-in ones
+      const imported = parseRequirementProfiles(await file.text()).filter(
+        (candidate) =>
+          !BUILT_IN_PROFILES.some((builtIn) => builtIn.name === candidate.name)
+      );
+      if (imported.length === 0) {
+        throw new Error("The file only contains built-in profile names");
+      }
+      setUserProfiles(saveUserProfiles(imported));
+      onChange(imported[0]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : "Could not import the file"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor="requirement-profile" className="font-semibold">
+          Site profile
+        </Label>
+        <Select value={savedProfile?.name ?? ""} onValueChange={selectProfile}>
+          <SelectTrigger id="requirement-profile" className="w-48">
+            <SelectValue placeholder={profile.name} />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((candidate) => (
+              <SelectItem key={candidate.name} value={candidate.name}>
+                {candidate.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isModified && (
+          <span className="text-xs text-gray-500">unsaved changes</span>
+        )}
+        <div className="flex gap-1 ml-auto">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditing((prev) => !prev)}
+            aria-pressed={editing}
+          >
+            <Pencil className="h-4 w-4" />
+            Edit
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportProfile}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+      {editing && (
+        <div className="space-y-3 border rounded p-3 text-sm">
+          <div className="grid grid-cols-[1fr_auto] items-center gap-x-3 gap-y-2">
+            {SUPPORTED_PPE_ITEMS.map((item) => (
+              <div key={item.id} className="contents">
+                <span className="flex items-center gap-1">
+                  <PPEItemIcon item={item} className="h-4 w-4" />
+                  {item.label}
+                </span>
+                <Select
+                  value={getRequirement(profile, item.id)}
+                  onValueChange={(value) =>
+                    setRequirement(item.id, PPERequirementSchema.parse(value))
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PPERequirementSchema.options.map((requirement) => (
+                      <SelectItem key={requirement} value={requirement}>
+                        {PPE_REQUIREMENT_LABELS[requirement]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              className="w-48"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!trimmedName || nameIsBuiltIn}
+              onClick={saveProfile}
+            >
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+            {isUserProfile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setUserProfiles(deleteUserProfile(profile.name));
+                  onChange(BUILT_IN_PROFILES[0]);
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+          </div>
+          {nameIsBuiltIn && (
+            <p className="text-xs text-gray-500">
+              Built-in profiles cannot be overwritten; save under a new name.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Only required items count towards a person&apos;s verdict. Optional
+            and not applicable items are still reported but never make a
+            person non-compliant.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { DetectionView } from "@/components/detection-view";
+import { useAnalysis } from "@/components/analysis-provider";
+import { isHistoryAvailable, openInspection } from "@/lib/inspection-history";
+
+type LoadStatus = "loading" | "ready" | "missing" | "failed";
+
+// Deep link to a saved analysis: loads it into the shared analysis, unless it
+// is already the one on screen, and shows it on the detection view. The URL
+// follows when a new image or detection replaces it.
+export function SavedInspectionView({ id }: { id: string }) {
+  const router = useRouter();
+  const { currentInspectionId, openSavedInspection } = useAnalysis();
+  const [status, setStatus] = useState<LoadStatus>("loading");
+
+  // Read through refs so only a new id triggers a load
+  const currentIdRef = useRef(currentInspectionId);
+  currentIdRef.current = currentInspectionId;
+  const openRef = useRef(openSavedInspection);
+  openRef.current = openSavedInspection;
+
+  // IndexedDB is only available after mount
+  useEffect(() => {
+    if (currentIdRef.current === id) {
+      setStatus("ready");
+      return;
+    }
+    if (!isHistoryAvailable()) {
+      setStatus("missing");
+      return;
+    }
+    let cancelled = false;
+    setStatus("loading");
+    openInspection(id)
+      .then((saved) => {
+        if (cancelled) return;
+        if (!saved) {
+          setStatus("missing");
+          return;
+        }
+        openRef.current(saved);
+        setStatus("ready");
+      })
+      .catch((error) => {
+        console.error("Could not open inspection:", error);
+        if (!cancelled) setStatus("failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (status !== "ready" || currentInspectionId === id) return;
+    router.replace(
+      currentInspectionId ? `/inspections/${currentInspectionId}` : "/detect"
+    );
+  }, [status, currentInspectionId, id, router]);
+
+  if (status === "ready") {
+    return <DetectionView />;
+  }
+
+  return (
+    <Card className="border-2 border-black">
+      <CardContent className="text-center py-12 text-gray-500">
+        {status === "loading"
+          ? "Opening inspection..."
+          : status === "missing"
+          ? "This inspection is not stored in this browser."
+          : "Could not open the inspection. Please try again."}{" "}
+        {status !== "loading" && (
+          <Link href="/history" className="underline">
+            Back to History
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
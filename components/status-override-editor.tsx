@@ -0,0 +1,165 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getOverrideErrors,
+  OVERRIDE_STATUSES,
+  type AppliedOverride,
+  type OverrideStatus,
+  type StatusOverride,
+} from "@/lib/overrides";
+
+interface StatusOverrideEditorProps {
+  personId: number;
+  itemId: string;
+  itemLabel: string;
+  // The override in place, if any
+  override?: AppliedOverride;
+  // Prefilled as the reviewer, e.g. the inspector of the analysis
+  defaultReviewer?: string;
+  onSave: (override: StatusOverride) => void;
+  onRemove: () => void;
+  // The status shown in the result card, opening the editor when clicked
+  children: React.ReactNode;
+}
+
+// Popover to override one PPE status with a reason and the reviewer's name
+export function StatusOverrideEditor({
+  personId,
+  itemId,
+  itemLabel,
+  override,
+  defaultReviewer = "",
+  onSave,
+  onRemove,
+  children,
+}: StatusOverrideEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<OverrideStatus>("Detected");
+  const [reason, setReason] = useState("");
+  const [reviewer, setReviewer] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Start from the override in place each time the editor opens
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setStatus(override?.status ?? "Detected");
+      setReason(override?.reason ?? "");
+      setReviewer(override?.reviewer ?? defaultReviewer);
+      setErrors([]);
+    }
+    setOpen(next);
+  };
+
+  const save = () => {
+    const next: StatusOverride = {
+      personId,
+      itemId,
+      status,
+      reason: reason.trim(),
+      reviewer: reviewer.trim(),
+      reviewedAt: new Date().toISOString(),
+    };
+    const validation = getOverrideErrors(next);
+    if (validation.length > 0) {
+      setErrors(validation);
+      return;
+    }
+    onSave(next);
+    setOpen(false);
+  };
+
+  const fieldId = `override-${personId}-${itemId}`;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="rounded px-1 -mx-1 hover:bg-gray-200 focus-visible:outline focus-visible:outline-2"
+          aria-label={`Override ${itemLabel} status`}
+          // The card itself selects the person on click
+          onClick={(e) => e.stopPropagation()}
+        >
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 space-y-3 text-sm"
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <p className="font-semibold">
+          Override {itemLabel} for person {personId}
+        </p>
+        <RadioGroup
+          value={status}
+          onValueChange={(value) => setStatus(value as OverrideStatus)}
+        >
+          {OVERRIDE_STATUSES.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`${fieldId}-${option}`} />
+              <Label htmlFor={`${fieldId}-${option}`}>{option}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <div className="space-y-1">
+          <Label htmlFor={`${fieldId}-reason`}>Reason</Label>
+          <Textarea
+            id={`${fieldId}-reason`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Hard hat worn under the hood"
+            rows={3}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${fieldId}-reviewer`}>Reviewer</Label>
+          <Input
+            id={`${fieldId}-reviewer`}
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+          />
+        </div>
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-600">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-between gap-2">
+          {override ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onRemove();
+                setOpen(false);
+              }}
+            >
+              Restore model value
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button size="sm" onClick={save}>
+            Save override
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfidenceInput } from "@/components/confidence-input";
+import { PPEItemIcon } from "@/components/ppe-item-icon";
+import type { APIConfig, ItemThreshold, ThresholdRules } from "@/lib/api";
+import { SUPPORTED_PPE_ITEMS } from "@/lib/ppe-items";
+import {
+  BUILT_IN_PRESETS,
+  deleteUserPreset,
+  loadUserPresets,
+  saveUserPreset,
+  type ThresholdPreset,
+} from "@/lib/threshold-presets";
+
+interface ThresholdSettingsProps {
+  rules: ThresholdRules;
+  onChange: (rules: ThresholdRules) => void;
+  config: APIConfig;
+}
+
+// Bounds edited one at a time. Each is committed, clamped to the range, on
+// blur or Enter; a detected bound set below the indeterminate one leaves it
+// as it is and the rules clamp the band when they are evaluated.
+function ThresholdInputs({
+  id,
+  threshold,
+  disabled,
+  config,
+  onChange,
+}: {
+  id: string;
+  threshold: ItemThreshold;
+  disabled?: boolean;
+  config: APIConfig;
+  onChange: (threshold: ItemThreshold) => void;
+}) {
+  return (
+    <>
+      <ConfidenceInput
+        id={`${id}-detected`}
+        value={threshold.detected}
+        disabled={disabled}
+        config={config}
+        onCommit={(detected) => onChange({ ...threshold, detected })}
+        className="w-20 text-center"
+        aria-label="Detected at or above"
+      />
+      <ConfidenceInput
+        id={`${id}-indeterminate`}
+        value={threshold.indeterminate}
+        disabled={disabled}
+        config={config}
+        onCommit={(indeterminate) => onChange({ ...threshold, indeterminate })}
+        className="w-20 text-center"
+        aria-label="Indeterminate at or above"
+      />
+    </>
+  );
+}
+
+// Per-item "detected" and "indeterminate" bounds with named presets
+export function ThresholdSettings({
+  rules,
+  onChange,
+  config,
+}: ThresholdSettingsProps) {
+  const [userPresets, setUserPresets] = useState<ThresholdPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setUserPresets(loadUserPresets());
+  }, []);
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+  const selectedUserPreset = userPresets.find(
+    (preset) => preset.name === presetName
+  );
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find((candidate) => candidate.name === name);
+    if (preset) {
+      setPresetName(preset.builtIn ? "" : preset.name);
+      onChange(preset.rules);
+    }
+  };
+
+  const setItemThreshold = (itemId: string, threshold: ItemThreshold | null) => {
+    const items = { ...rules.items };
+    if (threshold) {
+      items[itemId] = threshold;
+    } else {
+      delete items[itemId];
+    }
+    onChange({ ...rules, items });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select onValueChange={applyPreset}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Load preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.name} value={preset.name}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="w-40"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!presetName.trim()}
+          onClick={() => setUserPresets(saveUserPreset(presetName.trim(), rules))}
+        >
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+        {selectedUserPreset && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setUserPresets(deleteUserPreset(selectedUserPreset.name));
+              setPresetName("");
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {/* Bounds per item */}
+      <div className="grid grid-cols-[auto_1fr_auto_auto] items-center gap-x-3 gap-y-2">
+        <span />
+        <span />
+        <span className="text-xs text-gray-500 text-center">Detected ≥</span>
+        <span className="text-xs text-gray-500 text-center">
+          Indeterminate ≥
+        </span>
+
+        <span />
+        <span className="font-semibold">All items (default)</span>
+        <ThresholdInputs
+          id="threshold-default"
+          threshold={rules.default}
+          config={config}
+          onChange={(threshold) => onChange({ ...rules, default: threshold })}
+        />
+
+        {SUPPORTED_PPE_ITEMS.map((item) => {
+          const custom = rules.items[item.id];
+          return [
+            <Checkbox
+              key={`${item.id}-custom`}
+              checked={Boolean(custom)}
+              onCheckedChange={(checked) =>
+                setItemThreshold(item.id, checked ? rules.default : null)
+              }
+              aria-label={`Custom thresholds for ${item.label}`}
+            />,
+            <span key={`${item.id}-label`} className="flex items-center gap-1">
+              <PPEItemIcon item={item} className="h-4 w-4" />
+              {item.label}
+            </span>,
+            <ThresholdInputs
+              key={`${item.id}-inputs`}
+              id={`threshold-${item.id}`}
+              threshold={custom || rules.default}
+              disabled={!custom}
+              config={config}
+              onChange={(threshold) => setItemThreshold(item.id, threshold)}
+            />,
+          ];
+        })}
+      </div>
+      <p className="text-xs text-gray-500">
+        Equipment at or above the detected bound is Detected, between the two
+        bounds Indeterminate, and below the indeterminate bound Not Detected.
+        An indeterminate bound above the detected one counts as equal to it.
+        Tick an item to give it its own bounds.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,674 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { FileText, Film, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { AnnotatedImageViewer } from "@/components/annotated-image-viewer";
+import { ComplianceSummary } from "@/components/compliance-verdict";
+import { DetectionResultCard } from "@/components/detection-result-card";
+import {
+  API_ERROR_GUIDANCE,
+  ThresholdRules,
+  fileToBase64,
+  ppeAPI,
+} from "@/lib/api";
+import { BatchItem, createBatchItems, summarizeBatch } from "@/lib/batch";
+import { getImageVerdict } from "@/lib/compliance";
+import type { RuleSet } from "@/lib/compliance-rules";
+import { getInspectionErrors, type InspectionDetails } from "@/lib/inspection";
+import { generatePPEDetectionPDF } from "@/lib/pdf-utils";
+import type { RedactionMode } from "@/lib/redaction";
+import type { RequirementProfile } from "@/lib/requirement-profiles";
+import { applyThresholdRules } from "@/lib/thresholds";
+import {
+  aggregateTrack,
+  TRACK_POLICY_LABELS,
+  trackPersons,
+  type TrackPolicy,
+} from "@/lib/tracking";
+import {
+  DEFAULT_FRAME_INTERVAL,
+  formatTimecode,
+  getComplianceRate,
+  getRateColor,
+  getWorstFrames,
+  isVideoFile,
+  MAX_VIDEO_FRAMES,
+  sampleVideoFrames,
+} from "@/lib/video-frames";
+import { excludePersonsInZones, mergeZones } from "@/lib/zones";
+
+// Frames listed under "Worst frames"
+const WORST_FRAME_COUNT = 5;
+
+// A sampled frame queued for detection, with its position in the video
+type FrameItem = BatchItem & { time: number };
+
+type Phase = "idle" | "sampling" | "detecting";
+
+interface VideoAnalysisProps {
+  thresholds: ThresholdRules;
+  profile: RequirementProfile;
+  ruleSet: RuleSet | null;
+  inspection: InspectionDetails;
+  isConnected: boolean | null;
+  // Redaction of faces in the exported frames
+  redaction: RedactionMode;
+}
+
+// Sample a site video into frames, detect each one and show compliance over
+// time. Only the rule set's zones apply: zones drawn on a photo do not carry
+// over to a video.
+export function VideoAnalysis({
+  thresholds,
+  profile,
+  ruleSet,
+  inspection,
+  isConnected,
+  redaction,
+}: VideoAnalysisProps) {
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [frameInterval, setFrameInterval] = useState(DEFAULT_FRAME_INTERVAL);
+  const [frames, setFrames] = useState<FrameItem[]>([]);
+  const [frameUrls, setFrameUrls] = useState<Record<string, string>>({});
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [sampled, setSampled] = useState({ done: 0, total: 0 });
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [highlightedPersonId, setHighlightedPersonId] = useState<
+    number | null
+  >(null);
+  const [trackPolicy, setTrackPolicy] = useState<TrackPolicy>("majority");
+  const [exportIds, setExportIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const frameUrlsRef = useRef(frameUrls);
+  frameUrlsRef.current = frameUrls;
+
+  // Release frame object URLs and stop sampling on unmount
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      Object.values(frameUrlsRef.current).forEach((url) =>
+        URL.revokeObjectURL(url)
+      );
+    };
+  }, []);
+
+  const zones = useMemo(() => mergeZones([], ruleSet?.zones), [ruleSet]);
+
+  // Statuses are re-evaluated against the current thresholds for display;
+  // null for frames without results, which the tracker steps over
+  const keptResults = useMemo(
+    () =>
+      frames.map((frame) =>
+        frame.results
+          ? excludePersonsInZones(
+              applyThresholdRules(frame.results, thresholds),
+              zones
+            ).kept
+          : null
+      ),
+    [frames, thresholds, zones]
+  );
+  const tracking = useMemo(() => trackPersons(keptResults), [keptResults]);
+  // Persons are numbered by track so the same person keeps their number
+  // from frame to frame
+  const evaluatedFrames = useMemo(
+    () =>
+      frames.map((frame, frameIndex) => {
+        const kept = keptResults[frameIndex];
+        if (!kept) return { frame, results: [], imageVerdict: null };
+        const results = kept.map((result, index) => ({
+          ...result,
+          personId: tracking.trackIds[frameIndex][index],
+        }));
+        return {
+          frame,
+          results,
+          imageVerdict: getImageVerdict(results, { profile, ruleSet, zones }),
+        };
+      }),
+    [frames, keptResults, tracking, zones, profile, ruleSet]
+  );
+  // Unique people: one verdict per track rather than per sighting
+  const trackVerdict = useMemo(
+    () =>
+      getImageVerdict(
+        tracking.tracks.map((track) => aggregateTrack(track, trackPolicy)),
+        { profile, ruleSet, zones }
+      ),
+    [tracking, trackPolicy, profile, ruleSet, zones]
+  );
+  const violators = trackVerdict.persons.filter(
+    (person) => person.verdict === "Non-compliant"
+  ).length;
+  const needsReview = trackVerdict.persons.filter(
+    (person) => person.verdict === "Needs review"
+  ).length;
+  const rates = evaluatedFrames.map(({ imageVerdict }) =>
+    imageVerdict ? getComplianceRate(imageVerdict) : null
+  );
+  const worstFrames = getWorstFrames(rates, WORST_FRAME_COUNT);
+  // Counted from the assessed persons, as in the per-frame view
+  const summary = useMemo(
+    () =>
+      summarizeBatch(
+        frames.map((frame, frameIndex) => ({
+          ...frame,
+          results: keptResults[frameIndex] ?? undefined,
+        })),
+        { profile, ruleSet, zones }
+      ),
+    [frames, keptResults, profile, ruleSet, zones]
+  );
+  const selected = evaluatedFrames[selectedIndex];
+  const isRunning = phase !== "idle";
+
+  const releaseFrames = () => {
+    Object.values(frameUrls).forEach((url) => URL.revokeObjectURL(url));
+    setFrames([]);
+    setFrameUrls({});
+    setExportIds(new Set());
+    setSelectedIndex(0);
+  };
+
+  const chooseVideo = (file: File | undefined) => {
+    if (!file) return;
+    if (!isVideoFile(file)) {
+      setError(`${file.name}: choose an MP4 or WebM video.`);
+      return;
+    }
+    releaseFrames();
+    setVideoFile(file);
+    setError(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    chooseVideo(e.dataTransfer.files[0]);
+  };
+
+  const analyze = async () => {
+    if (!videoFile) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    releaseFrames();
+    setError(null);
+    setPhase("sampling");
+    setSampled({ done: 0, total: 0 });
+
+    try {
+      const sampledFrames = await sampleVideoFrames(videoFile, {
+        interval: frameInterval,
+        signal: controller.signal,
+        onProgress: (done, total) => setSampled({ done, total }),
+      });
+      if (sampledFrames.length === 0) {
+        setError("No frames could be read from this video.");
+        return;
+      }
+
+      const items: FrameItem[] = createBatchItems(
+        sampledFrames.map((frame) => frame.file)
+      ).map((item, index) => ({ ...item, time: sampledFrames[index].time }));
+      setFrames(items);
+      setFrameUrls(
+        Object.fromEntries(
+          items.map((item) => [item.id, URL.createObjectURL(item.file)])
+        )
+      );
+
+      setPhase("detecting");
+      // Extra fields such as `time` survive the batch run
+      const finalItems = (await ppeAPI.detectBatch(items, {
+        confidenceThreshold: thresholds.default.detected,
+        thresholds,
+        signal: controller.signal,
+        onItemUpdate: (updated) =>
+          setFrames((prev) =>
+            prev.map((item) =>
+              item.id === updated.id ? (updated as FrameItem) : item
+            )
+          ),
+      })) as FrameItem[];
+      setFrames(finalItems);
+    } catch (analyzeError) {
+      if (!controller.signal.aborted) {
+        setError(
+          analyzeError instanceof Error
+            ? analyzeError.message
+            : "The video could not be analysed."
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setPhase("idle");
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const toggleExport = (id: string, include: boolean) => {
+    setExportIds((prev) => {
+      const next = new Set(prev);
+      if (include) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const exportPDF = async () => {
+    const inspectionErrors = getInspectionErrors(inspection);
+    if (inspectionErrors.length > 0) {
+      setError(
+        `Complete the inspection details on the Reports page before exporting: ${inspectionErrors.join(
+          "; "
+        )}.`
+      );
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const selectedFrames = evaluatedFrames.filter(
+        ({ frame }) => exportIds.has(frame.id) && frame.results
+      );
+      await generatePPEDetectionPDF({
+        results: [],
+        frames: await Promise.all(
+          selectedFrames.map(async ({ frame, results }) => ({
+            label: formatTimecode(frame.time),
+            image: await fileToBase64(frame.file),
+            results,
+          }))
+        ),
+        tracking: {
+          people: trackVerdict.total,
+          violators,
+          policy: TRACK_POLICY_LABELS[trackPolicy],
+        },
+        confidence: thresholds.default.detected,
+        thresholds,
+        profile,
+        ruleSet,
+        zones,
+        inspection,
+        redaction: { mode: redaction },
+        timestamp: new Date(),
+      });
+    } catch (pdfError) {
+      console.error("Error generating PDF:", pdfError);
+      setError("Failed to generate PDF. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Video and sampling controls */}
+      <div className="space-y-4">
+        <div
+          className="border-4 border-blue-400 border-dashed rounded-lg p-6 text-center bg-blue-50 cursor-pointer"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+          onClick={() => !isRunning && fileInputRef.current?.click()}
+        >
+          <Film className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+          <p className="text-gray-600">
+            {videoFile ? videoFile.name : "Drag and drop a site video here"}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">.mp4 and .webm videos</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/mp4,video/webm"
+            onChange={(e) => {
+              chooseVideo(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Label htmlFor="frame-interval" className="font-semibold">
+            Sample every
+          </Label>
+          <Input
+            id="frame-interval"
+            type="number"
+            min={0.5}
+            max={60}
+            step={0.5}
+            value={frameInterval}
+            disabled={isRunning}
+            onChange={(e) =>
+              setFrameInterval(Math.min(60, Math.max(0.5, Number(e.target.value))))
+            }
+            className="w-20 text-center"
+          />
+          <span className="text-sm">seconds</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          At most {MAX_VIDEO_FRAMES} frames are taken; longer videos are sampled
+          further apart.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={analyze}
+            disabled={isRunning || !isConnected || !videoFile}
+            className="bg-yellow-400 hover:bg-yellow-500 text-black font-bold"
+          >
+            {phase === "sampling"
+              ? "Reading frames..."
+              : phase === "detecting"
+              ? "Processing..."
+              : "GO"}
+          </Button>
+          {isRunning && (
+            <Button variant="outline" onClick={cancel}>
+              <X className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Sampling and detection progress */}
+        {(phase === "sampling" || frames.length > 0) && (
+          <div className="border border-gray-300 bg-white p-4 space-y-3 text-sm">
+            {phase === "sampling" ? (
+              <div>
+                <div className="flex justify-between mb-1">
+                  <span className="font-semibold">Reading frames</span>
+                  <span>
+                    {sampled.done} / {sampled.total || "?"}
+                  </span>
+                </div>
+                <Progress
+                  value={
+                    sampled.total ? (sampled.done / sampled.total) * 100 : 0
+                  }
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <div className="flex justify-between mb-1">
+                    <span className="font-semibold">Frames processed</span>
+                    <span>
+                      {summary.done + summary.failed} / {summary.total}
+                    </span>
+                  </div>
+                  <Progress
+                    value={
+                      ((summary.done + summary.failed) / summary.total) * 100
+                    }
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <span>Failed</span>
+                  <span className="font-semibold text-red-600">
+                    {summary.failed}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Unique people</span>
+                  <span className="font-semibold">{trackVerdict.total}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Unique violators</span>
+                  <span className="font-semibold text-red-600">
+                    {violators}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Needing review</span>
+                  <span className="font-semibold">{needsReview}</span>
+                </div>
+                <div className="flex justify-between text-gray-500">
+                  <span>Detections across frames</span>
+                  <span>{summary.persons}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="track-policy">Per person status</Label>
+                  <Select
+                    value={trackPolicy}
+                    onValueChange={(value) =>
+                      setTrackPolicy(value as TrackPolicy)
+                    }
+                  >
+                    <SelectTrigger id="track-policy" className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TRACK_POLICY_LABELS).map(
+                        ([policy, label]) => (
+                          <SelectItem key={policy} value={policy}>
+                            {label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-gray-500">
+                  People are followed from frame to frame and counted once,
+                  with their equipment judged over all the frames they
+                  appear in.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Frames with the lowest compliance rate */}
+        {worstFrames.length > 0 && (
+          <div className="border border-gray-300 bg-white text-sm">
+            <h3 className="font-semibold p-3 border-b bg-gray-50">
+              Worst frames
+            </h3>
+            <div className="divide-y">
+              {worstFrames.map((index) => {
+                const { frame, imageVerdict } = evaluatedFrames[index];
+                return (
+                  <button
+                    key={frame.id}
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`flex w-full items-center gap-2 p-2 text-left hover:bg-gray-50 ${
+                      index === selectedIndex ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <span
+                      className={`h-3 w-3 rounded-full ${getRateColor(
+                        rates[index]
+                      )}`}
+                    />
+                    <span className="font-mono">
+                      {formatTimecode(frame.time)}
+                    </span>
+                    <span className="ml-auto text-gray-600">
+                      {imageVerdict?.compliant} of {imageVerdict?.total}{" "}
+                      compliant
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline and the selected frame */}
+      <div className="lg:col-span-2 border border-gray-300 bg-white">
+        <div className="flex flex-wrap items-center gap-2 p-3 border-b bg-gray-50">
+          <h3 className="font-semibold">Video Timeline</h3>
+          {frames.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={exportPDF}
+              disabled={isExporting || exportIds.size === 0}
+            >
+              <FileText className="h-4 w-4" />
+              {isExporting
+                ? "Exporting..."
+                : `Export PDF (${exportIds.size} ${
+                    exportIds.size === 1 ? "frame" : "frames"
+                  })`}
+            </Button>
+          )}
+        </div>
+        {frames.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            {phase === "sampling" ? "Reading frames..." : "No video analysed"}
+          </div>
+        ) : (
+          <div className="p-3 space-y-4">
+            {/* One segment per frame, coloured by its compliance rate */}
+            <div className="space-y-2">
+              <div className="flex h-6 overflow-hidden rounded border">
+                {evaluatedFrames.map(({ frame }, index) => (
+                  <button
+                    key={frame.id}
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    title={formatTimecode(frame.time)}
+                    aria-label={`Frame at ${formatTimecode(frame.time)}`}
+                    className={`flex-1 ${
+                      frame.status === "done"
+                        ? getRateColor(rates[index])
+                        : frame.status === "failed"
+                        ? "bg-gray-500"
+                        : "bg-gray-100"
+                    } ${
+                      index === selectedIndex
+                        ? "ring-2 ring-inset ring-black"
+                        : ""
+                    }`}
+                  />
+                ))}
+              </div>
+              <Slider
+                min={0}
+                max={frames.length - 1}
+                step={1}
+                value={[selectedIndex]}
+                onValueChange={([index]) => setSelectedIndex(index)}
+                aria-label="Scrub through frames"
+              />
+              <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full bg-green-500" />
+                  All compliant
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full bg-amber-400" />
+                  Half or more compliant
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full bg-red-500" />
+                  Under half compliant
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full bg-gray-300" />
+                  Nobody to assess
+                </span>
+              </div>
+            </div>
+
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="font-mono font-semibold">
+                    {formatTimecode(selected.frame.time)}
+                  </span>
+                  {selected.frame.results && (
+                    <div className="flex items-center gap-2 ml-auto">
+                      <Checkbox
+                        id="export-frame"
+                        checked={exportIds.has(selected.frame.id)}
+                        onCheckedChange={(checked) =>
+                          toggleExport(selected.frame.id, checked === true)
+                        }
+                      />
+                      <Label htmlFor="export-frame">Include in report</Label>
+                    </div>
+                  )}
+                </div>
+                {selected.frame.error && (
+                  <p className="text-xs text-red-600">
+                    {selected.frame.error}
+                    {selected.frame.errorCode && (
+                      <span className="block text-gray-500">
+                        {API_ERROR_GUIDANCE[selected.frame.errorCode].guidance}
+                      </span>
+                    )}
+                  </p>
+                )}
+                {selected.imageVerdict && (
+                  <ComplianceSummary
+                    imageVerdict={selected.imageVerdict}
+                    onPersonSelect={setHighlightedPersonId}
+                  />
+                )}
+                <AnnotatedImageViewer
+                  imageSrc={frameUrls[selected.frame.id]}
+                  results={selected.results}
+                  zones={zones}
+                  highlightedPersonId={highlightedPersonId}
+                  onPersonHover={setHighlightedPersonId}
+                  onPersonSelect={setHighlightedPersonId}
+                />
+                {selected.results.map((result, index) => (
+                  <DetectionResultCard
+                    key={result.personId}
+                    result={result}
+                    profile={profile}
+                    verdict={selected.imageVerdict?.persons[index]}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {exportIds.size === 0 && frames.length > 0 && (
+          <p className="px-3 pb-3 text-xs text-gray-500">
+            Tick &quot;Include in report&quot; on frames to export them. The
+            report uses the inspection details from the{" "}
+            <Link href="/reports" className="underline">
+              Reports
+            </Link>{" "}
+            page.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
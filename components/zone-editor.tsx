@@ -0,0 +1,297 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Check, Save, Trash2, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DetectionResult } from "@/lib/api";
+import {
+  deleteZoneSet,
+  loadZoneSets,
+  saveZoneSet,
+  ZONE_COLORS,
+  type Zone,
+  type ZoneKind,
+  type ZonePoint,
+  type ZoneSet,
+} from "@/lib/zones";
+
+const ZONE_KIND_LABELS: Record<ZoneKind, string> = {
+  area: "Area",
+  exclusion: "Exclusion (not assessed)",
+};
+
+interface ZoneEditorProps {
+  imageSrc: string;
+  zones: Zone[];
+  onChange: (zones: Zone[]) => void;
+  // Person boxes drawn for reference while drawing
+  results?: DetectionResult[];
+}
+
+// Draw labelled polygons on the uploaded image: click to add points, close
+// the polygon with "Finish", then name it. Zone sets can be saved per camera
+// or site.
+export function ZoneEditor({
+  imageSrc,
+  zones,
+  onChange,
+  results = [],
+}: ZoneEditorProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<ZonePoint[]>([]);
+  const [zoneName, setZoneName] = useState("");
+  const [zoneKind, setZoneKind] = useState<ZoneKind>("area");
+  const [zoneSets, setZoneSets] = useState<ZoneSet[]>([]);
+  const [zoneSetName, setZoneSetName] = useState("");
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setZoneSets(loadZoneSets());
+  }, []);
+
+  const addPoint = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    setDraft((prev) => [
+      ...prev,
+      {
+        x: clamp((e.clientX - rect.left) / rect.width),
+        y: clamp((e.clientY - rect.top) / rect.height),
+      },
+    ]);
+  };
+
+  const trimmedName = zoneName.trim();
+  const canFinish =
+    draft.length >= 3 &&
+    trimmedName !== "" &&
+    !zones.some((zone) => zone.name === trimmedName);
+
+  const finishZone = () => {
+    if (!canFinish) return;
+    onChange([...zones, { name: trimmedName, kind: zoneKind, points: draft }]);
+    setDraft([]);
+    setZoneName("");
+  };
+
+  const loadZoneSet = (name: string) => {
+    const zoneSet = zoneSets.find((candidate) => candidate.name === name);
+    if (zoneSet) {
+      setZoneSetName(zoneSet.name);
+      onChange(zoneSet.zones);
+    }
+  };
+
+  const toPoints = (points: ZonePoint[]) =>
+    points.map((point) => `${point.x},${point.y}`).join(" ");
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Zone sets per camera or site */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select onValueChange={loadZoneSet}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Load zone set" />
+          </SelectTrigger>
+          <SelectContent>
+            {zoneSets.map((zoneSet) => (
+              <SelectItem key={zoneSet.name} value={zoneSet.name}>
+                {zoneSet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={zoneSetName}
+          onChange={(e) => setZoneSetName(e.target.value)}
+          placeholder="Camera or site"
+          className="w-40"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!zoneSetName.trim()}
+          onClick={() => setZoneSets(saveZoneSet(zoneSetName.trim(), zones))}
+        >
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+        {zoneSets.some((zoneSet) => zoneSet.name === zoneSetName) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setZoneSets(deleteZoneSet(zoneSetName));
+              setZoneSetName("");
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {/* Drawing surface: the SVG uses image ratios as coordinates */}
+      <div
+        ref={surfaceRef}
+        className="relative border bg-gray-100 cursor-crosshair select-none"
+        onClick={addPoint}
+      >
+        <Image
+          src={imageSrc}
+          alt="Image to draw zones on"
+          width={1200}
+          height={900}
+          className="block w-full h-auto"
+          draggable={false}
+        />
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          {results.map(
+            (result) =>
+              result.boundingBox && (
+                <rect
+                  key={result.personId}
+                  x={result.boundingBox.x}
+                  y={result.boundingBox.y}
+                  width={result.boundingBox.width}
+                  height={result.boundingBox.height}
+                  fill="none"
+                  stroke="#6b7280"
+                  strokeWidth={1}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )
+          )}
+          {zones.map((zone) => (
+            <polygon
+              key={zone.name}
+              points={toPoints(zone.points)}
+              fill={ZONE_COLORS[zone.kind]}
+              fillOpacity={0.2}
+              stroke={ZONE_COLORS[zone.kind]}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {draft.length > 0 && (
+            <polyline
+              points={toPoints(draft)}
+              fill="none"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {/* Zone labels, outside the stretched SVG so text keeps its shape */}
+        {zones.map((zone) => (
+          <span
+            key={zone.name}
+            className="absolute -translate-y-full rounded px-1 text-xs text-white pointer-events-none"
+            style={{
+              left: `${zone.points[0].x * 100}%`,
+              top: `${zone.points[0].y * 100}%`,
+              backgroundColor: ZONE_COLORS[zone.kind],
+            }}
+          >
+            {zone.name}
+          </span>
+        ))}
+      </div>
+
+      {/* New zone */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={zoneName}
+          onChange={(e) => setZoneName(e.target.value)}
+          placeholder="Zone name, e.g. hot-work area"
+          className="w-56"
+        />
+        <Select
+          value={zoneKind}
+          onValueChange={(value) => setZoneKind(value as ZoneKind)}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ZONE_KIND_LABELS) as ZoneKind[]).map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {ZONE_KIND_LABELS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!canFinish}
+          onClick={finishZone}
+        >
+          <Check className="h-4 w-4" />
+          Finish zone
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={draft.length === 0}
+          onClick={() => setDraft((prev) => prev.slice(0, -1))}
+        >
+          <Undo2 className="h-4 w-4" />
+          Undo point
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Click the image to add at least three points, name the zone and finish
+        it. A person belongs to a zone when the bottom centre of their box
+        (where they stand) is inside it; persons in exclusion zones are left out
+        of the results and the report.
+      </p>
+
+      {zones.length > 0 && (
+        <ul className="space-y-1">
+          {zones.map((zone) => (
+            <li key={zone.name} className="flex items-center gap-2">
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{ backgroundColor: ZONE_COLORS[zone.kind] }}
+              />
+              <span className="font-medium">{zone.name}</span>
+              <span className="text-xs text-gray-500">
+                {ZONE_KIND_LABELS[zone.kind]}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() =>
+                  onChange(zones.filter((other) => other.name !== zone.name))
+                }
+                aria-label={`Remove zone ${zone.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+// Shared bundle: one JSON file with an analysis, its images and the
+// inspection details, for someone who does not have the app's history.
+// Images are inlined as data URLs, so the crop URLs the backend returns do
+// not need to be valid when the bundle is opened.
+import type { DetectionResult, ThresholdRules } from "./api";
+import type { ImageVerdict } from "./compliance";
+import type { RuleSet } from "./compliance-rules";
+import { toDataURL } from "./image-utils";
+import type { InspectionDetails } from "./inspection";
+import type { StatusOverride } from "./overrides";
+import {
+  getRedactionRegions,
+  redactImage,
+  redactResultCrops,
+  type RedactionMode,
+  type RedactionOptions,
+} from "./redaction";
+import type { RequirementProfile } from "./requirement-profiles";
+import { normalizeThresholdRules } from "./threshold-rules";
+import type { Zone } from "./zones";
+
+export const BUNDLE_FORMAT = "ppe-detection-bundle";
+export const BUNDLE_VERSION = 1;
+
+export interface AnalysisBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  // ISO timestamp of the export
+  exportedAt: string;
+  fileName: string;
+  inspection: InspectionDetails;
+  // Redaction applied to the image and the crops
+  redaction: RedactionMode;
+  image: string;
+  // Assessed persons with the thresholds and overrides applied
+  results: DetectionResult[];
+  // Persons in exclusion zones, not assessed
+  excludedPersonIds: number[];
+  verdict: {
+    verdict: ImageVerdict["verdict"];
+    compliant: number;
+    total: number;
+    persons: { personId: number; verdict: ImageVerdict["verdict"] }[];
+  };
+  overrides: StatusOverride[];
+  thresholds: ThresholdRules;
+  profile: RequirementProfile;
+  ruleSet: RuleSet | null;
+  zones: Zone[];
+}
+
+export interface BundleOptions {
+  fileName: string;
+  inspection: InspectionDetails;
+  image: string;
+  // Every person on the image, whose faces are redacted
+  allResults: DetectionResult[];
+  results: DetectionResult[];
+  excludedResults: DetectionResult[];
+  imageVerdict: ImageVerdict;
+  overrides: StatusOverride[];
+  thresholds: ThresholdRules;
+  profile: RequirementProfile;
+  ruleSet: RuleSet | null;
+  zones: Zone[];
+  redaction?: RedactionOptions;
+  timestamp?: Date;
+}
+
+export async function createAnalysisBundle({
+  fileName,
+  inspection,
+  image,
+  allResults,
+  results,
+  excludedResults,
+  imageVerdict,
+  overrides,
+  thresholds,
+  profile,
+  ruleSet,
+  zones,
+  redaction = { mode: "none" },
+  timestamp = new Date(),
+}: BundleOptions): Promise<AnalysisBundle> {
+  const regions = getRedactionRegions(allResults, redaction.regions);
+  const redactedResults = await redactResultCrops(
+    results,
+    regions,
+    redaction.mode
+  );
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: timestamp.toISOString(),
+    fileName,
+    inspection,
+    redaction: redaction.mode,
+    image: await toDataURL(await redactImage(image, regions, redaction.mode)),
+    results: await Promise.all(
+      redactedResults.map(async (result) => ({
+        ...result,
+        image: result.image ? await toDataURL(result.image) : "",
+      }))
+    ),
+    excludedPersonIds: excludedResults.map((result) => result.personId),
+    verdict: {
+      verdict: imageVerdict.verdict,
+      compliant: imageVerdict.compliant,
+      total: imageVerdict.total,
+      persons: imageVerdict.persons.map(({ personId, verdict }) => ({
+        personId,
+        verdict,
+      })),
+    },
+    overrides,
+    thresholds: normalizeThresholdRules(thresholds),
+    profile,
+    ruleSet,
+    zones,
+  };
+}
+
+// File name of the bundle, e.g. "site-walk-03.ppe-bundle.json"
+export function getBundleFileName(fileName: string): string {
+  return `${fileName.replace(/\.[^.]+$/, "") || "analysis"}.ppe-bundle.json`;
+}
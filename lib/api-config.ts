@@ -0,0 +1,92 @@
+// Capabilities reported by /api/config, cached per provider. Validation and
+// the threshold controls read the active config, falling back to the last
+// config seen and then to the defaults below when the API is unreachable.
+import type { APIConfig } from "./api";
+import { APIConfigSchema } from "./detection-contract";
+import { readStored, writeStored } from "./storage";
+
+// Matches the backend's /api/config
+export const DEFAULT_API_CONFIG: APIConfig = {
+  supported_formats: ["image/jpeg", "image/jpg", "image/png"],
+  max_file_size: 10485760, // 10MB in bytes
+  max_persons_per_image: 10,
+  confidence_range: { min: 0, max: 100, step: 5 },
+};
+
+// Formats the browser converts to JPEG before upload
+export const CONVERTIBLE_FORMATS = ["image/webp", "image/heic", "image/heif"];
+
+export type APIConfigSource = "server" | "cache" | "defaults";
+
+export interface LoadedAPIConfig {
+  config: APIConfig;
+  source: APIConfigSource;
+}
+
+const STORAGE_KEY = "ppe-detection:api-config";
+
+let activeConfig: LoadedAPIConfig = {
+  config: DEFAULT_API_CONFIG,
+  source: "defaults",
+};
+const configRequests = new Map<string, Promise<LoadedAPIConfig>>();
+
+// Config currently in effect
+export function getActiveConfig(): APIConfig {
+  return activeConfig.config;
+}
+
+// Fetch the config for a provider once and make it the active config.
+// Concurrent and later calls share the same request unless `refresh` is set.
+export function loadAPIConfig(
+  key: string,
+  fetchConfig: () => Promise<APIConfig>,
+  refresh = false
+): Promise<LoadedAPIConfig> {
+  let request = configRequests.get(key);
+  if (!request || refresh) {
+    request = fetchConfig()
+      .then((config): LoadedAPIConfig => {
+        writeStored(`${STORAGE_KEY}:${key}`, config);
+        return { config, source: "server" };
+      })
+      .catch((): LoadedAPIConfig => {
+        // Allow a retry on the next call
+        configRequests.delete(key);
+        const stored = readStored(`${STORAGE_KEY}:${key}`, APIConfigSchema);
+        return stored
+          ? { config: stored, source: "cache" }
+          : { config: DEFAULT_API_CONFIG, source: "defaults" };
+      });
+    configRequests.set(key, request);
+  }
+
+  return request.then((loaded) => {
+    activeConfig = loaded;
+    return loaded;
+  });
+}
+
+// Human readable list of image formats, e.g. "JPEG, PNG or WebP"
+export function describeFormats(formats: string[]): string {
+  const names = Array.from(
+    new Set(
+      formats.map((format) => {
+        const subtype = format.replace("image/", "").toLowerCase();
+        if (subtype === "jpg" || subtype === "jpeg") return "JPEG";
+        if (subtype === "webp") return "WebP";
+        return subtype.toUpperCase();
+      })
+    )
+  );
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`
+    : names.join("");
+}
+
+// Keep a threshold inside the configured range, on the configured step
+export function clampConfidence(value: number, config: APIConfig): number {
+  const { min, max, step } = config.confidence_range;
+  const stepped = Math.round((value - min) / step) * step + min;
+  return Math.min(max, Math.max(min, stepped));
+}
@@ -0,0 +1,164 @@
+// Error types raised by the PPE Detection API client and its providers
+import type { z } from "zod";
+
+// Classification of API failures, used by the UI to offer recovery guidance
+export type APIErrorCode =
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "validation"
+  | "payload-too-large"
+  | "provider-failure"
+  | "rate-limited";
+
+// Derive an error code from an HTTP status. Requests without a status never
+// reached the server.
+export function getErrorCodeForStatus(status?: number): APIErrorCode {
+  if (status === undefined) return "network";
+  if (status === 413) return "payload-too-large";
+  if (status === 429) return "rate-limited";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 400 && status < 500 && status !== 404) return "validation";
+  return "provider-failure";
+}
+
+// API Error class
+export class APIError extends Error {
+  public code: APIErrorCode;
+
+  constructor(
+    message: string,
+    public status?: number,
+    public data?: any,
+    code?: APIErrorCode
+  ) {
+    super(message);
+    this.name = "APIError";
+    this.code = code || getErrorCodeForStatus(status);
+  }
+}
+
+// Raised when a response does not match the shared detection contract. The
+// request itself was fine, so this is reported as a provider failure.
+export class APIContractError extends APIError {
+  constructor(endpoint: string, public issues: z.ZodIssue[], data?: any) {
+    super(
+      `Unexpected response from ${endpoint}: ${issues
+        .map((issue) => `${issue.path.join(".") || "(root)"} ${issue.message}`)
+        .join("; ")}`,
+      undefined,
+      data,
+      "provider-failure"
+    );
+    this.name = "APIContractError";
+  }
+}
+
+// Failures that may succeed when the same request is sent again
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof APIError)) return false;
+  return (
+    error.code === "network" ||
+    error.code === "timeout" ||
+    error.code === "rate-limited" ||
+    (error.code === "provider-failure" &&
+      error.status !== undefined &&
+      error.status >= 500)
+  );
+}
+
+// Delay before retry number `attempt` (0-based): `baseDelayMs` doubled for
+// every further attempt. Honours Retry-After (in seconds) when the server
+// rate limits us.
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  baseDelayMs: number
+): number {
+  if (error instanceof APIError && error.code === "rate-limited") {
+    const retryAfter = Number(error.data?.retryAfter);
+    if (retryAfter > 0) return retryAfter * 1000;
+  }
+  return baseDelayMs * 2 ** attempt;
+}
+
+// Wait before the next attempt, stopping early when the caller aborts
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+// Raise a "cancelled" error when the caller has aborted the request
+export function throwIfCancelled(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw new APIError(
+      "Request was cancelled",
+      undefined,
+      undefined,
+      "cancelled"
+    );
+  }
+}
+
+// What to tell the user for each kind of failure
+export const API_ERROR_GUIDANCE: Record<
+  APIErrorCode,
+  { title: string; guidance: string }
+> = {
+  network: {
+    title: "Cannot reach the detection service",
+    guidance:
+      "Check your internet connection or that the backend server is running, then try again. The offline mock provider can be used in the meantime.",
+  },
+  timeout: {
+    title: "The detection service took too long",
+    guidance:
+      "The service may be under load. Try again, or upload a smaller image.",
+  },
+  cancelled: {
+    title: "Request cancelled",
+    guidance: "The request was stopped before it finished.",
+  },
+  validation: {
+    title: "The request was rejected",
+    guidance:
+      "Check that the image is a JPEG or PNG and that the confidence threshold is between 0 and 100%.",
+  },
+  "payload-too-large": {
+    title: "Image too large",
+    guidance:
+      "Resize or compress the image below the upload limit and try again.",
+  },
+  "provider-failure": {
+    title: "The detection service failed",
+    guidance:
+      "The service returned an error or an unexpected response. Try again later, and contact support if it keeps happening.",
+  },
+  "rate-limited": {
+    title: "Too many requests",
+    guidance:
+      "The detection service is limiting requests. Wait a moment, or lower the number of parallel uploads for batches.",
+  },
+};
+
+// Validate a payload against the shared contract
+export function parseContract<T>(
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  body: unknown
+): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new APIContractError(endpoint, parsed.error.issues, body);
+  }
+  return parsed.data;
+}
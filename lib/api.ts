@@ -1,166 +1,198 @@
 // API configuration and utilities for PPE Detection Backend
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "https://detection.gulfconsulting.com.au/api";
+import type { z } from "zod";
+import type {
+  APIConfigSchema,
+  BoundingBoxSchema,
+  DetectionResultSchema,
+  HealthResponseSchema,
+  ItemThresholdSchema,
+  PPEDetectionResponseSchema,
+  PPEItemResultSchema,
+  PPEStatusSchema,
+  ThresholdRulesSchema,
+} from "./detection-contract";
+import {
+  createBatchItems,
+  runBatch,
+  type BatchItem,
+  type BatchOptions,
+} from "./batch";
+import {
+  CONVERTIBLE_FORMATS,
+  describeFormats,
+  getActiveConfig,
+  loadAPIConfig,
+  type LoadedAPIConfig,
+} from "./api-config";
+import { APIError } from "./api-errors";
+import {
+  formatFileSize,
+  isHeicFile,
+  preprocessImage,
+  type ImagePreprocessOptions,
+  type PreprocessedImage,
+} from "./image-preprocess";
+import { createDetectionProvider } from "./providers";
+import type {
+  DetectOptions,
+  DetectionProvider,
+  DetectionProviderName,
+  RequestOptions,
+} from "./providers/types";
+
+// Which detection provider to use: "http" (default), "mock" or "replay"
+const DETECTION_PROVIDER = (process.env.NEXT_PUBLIC_DETECTION_PROVIDER ||
+  "http") as DetectionProviderName;
+
+// Largest photo accepted for preprocessing. The backend's own limit
+// (max_file_size in /api/config) is checked after preprocessing.
+const MAX_INPUT_SIZE = 50 * 1024 * 1024; // 50MB
+
+// Types for API requests and responses, inferred from the shared contract
+export type PPEStatus = z.infer<typeof PPEStatusSchema>;
+export type PPEItemResult = z.infer<typeof PPEItemResultSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type DetectionResult = z.infer<typeof DetectionResultSchema>;
+export type PPEDetectionResponse = z.infer<typeof PPEDetectionResponseSchema>;
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
+export type APIConfig = z.infer<typeof APIConfigSchema>;
+export type ItemThreshold = z.infer<typeof ItemThresholdSchema>;
+export type ThresholdRules = z.infer<typeof ThresholdRulesSchema>;
 
-// Types for API requests and responses
 export interface PPEDetectionRequest {
   image: string | File;
   confidence_threshold: number;
 }
 
-export interface PPEDetectionResponse {
-  success: boolean;
-  data: {
-    results: DetectionResult[];
-    processing_time: number;
-    image_metadata?: {
-      width: number;
-      height: number;
-      format: string;
-    };
-  };
-  message?: string;
-  error?: string;
-}
-
-export interface DetectionResult {
-  personId: number;
-  confidence: number;
-  image: string;
-  boundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  hardHat: {
-    status: "Detected" | "Not Detected" | "Indeterminate";
-    confidence: number;
-  };
-  faceMask: {
-    status: "Detected" | "Not Detected" | "Indeterminate";
-    confidence: number;
-  };
-  handProtectionL: {
-    status: "Detected" | "Not Detected" | "Indeterminate";
-    confidence: number;
-  };
-  handProtectionR: {
-    status: "Detected" | "Not Detected" | "Indeterminate";
-    confidence: number;
-  };
-}
-
-// API Error class
-export class APIError extends Error {
-  constructor(message: string, public status?: number, public data?: any) {
-    super(message);
-    this.name = "APIError";
-  }
-}
-
-// Generic API request function
-async function apiRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
+export {
+  APIError,
+  APIContractError,
+  API_ERROR_GUIDANCE,
+  isRetryableError,
+} from "./api-errors";
+export type { APIErrorCode } from "./api-errors";
+export type {
+  DetectOptions,
+  DetectionProvider,
+  DetectionProviderName,
+  RequestOptions,
+} from "./providers/types";
+
+// Provider currently serving detection requests
+let activeProvider: DetectionProvider = createDetectionProvider(
+  DETECTION_PROVIDER
+);
 
-  const defaultOptions: RequestInit = {
-    headers: {
-      "Content-Type": "application/json",
-    },
-  };
+// Main API functions
+export const ppeAPI = {
+  // Detect PPE in uploaded image. Pass an AbortSignal to cancel the request,
+  // and per-item thresholds for the annotated crops.
+  async detectPPE(
+    image: string | File,
+    confidenceThreshold: number = 80,
+    options?: DetectOptions
+  ): Promise<PPEDetectionResponse> {
+    return activeProvider.detect(image, confidenceThreshold, options);
+  },
 
-  const config = { ...defaultOptions, ...options };
+  // Detect PPE in many images with a concurrency limit, retries and
+  // cancellation. Pass the items of a previous batch to rerun only the
+  // images that failed or were cancelled.
+  async detectBatch(
+    images: File[] | BatchItem[],
+    options: BatchOptions
+  ): Promise<BatchItem[]> {
+    const items = images.map((image) =>
+      image instanceof File ? createBatchItems([image])[0] : image
+    );
+    return runBatch(
+      items,
+      async (image, confidenceThreshold, detectOptions) => {
+        const prepared = await ppeAPI.prepareImage(image);
+        return activeProvider.detect(
+          prepared ? prepared.file : image,
+          confidenceThreshold,
+          detectOptions
+        );
+      },
+      options
+    );
+  },
 
-  try {
-    const response = await fetch(url, config);
+  // Fix orientation, downsize and re-encode a photo before it is uploaded.
+  // Resolves to null for providers that do not upload: the offline providers
+  // match their fixtures on the original bytes.
+  async prepareImage(
+    file: File,
+    options?: Partial<ImagePreprocessOptions>
+  ): Promise<PreprocessedImage | null> {
+    if (!activeProvider.uploadsImages) {
+      return null;
+    }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+    const prepared = await preprocessImage(file, options);
+    const maxSize = getActiveConfig().max_file_size;
+    if (prepared.processedSize > maxSize) {
       throw new APIError(
-        errorData.message || `HTTP error! status: ${response.status}`,
-        response.status,
-        errorData
+        `Image is still larger than ${formatFileSize(maxSize)} after resizing. Please lower the maximum dimension or quality.`,
+        undefined,
+        undefined,
+        "payload-too-large"
       );
     }
+    return prepared;
+  },
 
-    return await response.json();
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
-    }
-
-    // Network or other errors
-    throw new APIError(
-      `Network error: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
-}
-
-// Convert File or base64 string to FormData for image upload
-function createFormData(
-  image: string | File,
-  confidenceThreshold: number
-): FormData {
-  const formData = new FormData();
-
-  if (typeof image === "string") {
-    // Convert base64 to blob
-    const base64Data = image.split(",")[1] || image;
-    const byteCharacters = atob(base64Data);
-    const byteNumbers = new Array(byteCharacters.length);
-
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
-    }
-
-    const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: "image/jpeg" });
-    formData.append("image", blob, "uploaded_image.jpg");
-  } else {
-    formData.append("image", image);
-  }
-
-  formData.append("confidence_threshold", confidenceThreshold.toString());
-  return formData;
-}
+  // Health check endpoint
+  async healthCheck(options?: RequestOptions): Promise<HealthResponse> {
+    return activeProvider.healthCheck(options);
+  },
 
-// Main API functions
-export const ppeAPI = {
-  // Detect PPE in uploaded image
-  async detectPPE(
-    image: string | File,
-    confidenceThreshold: number = 80
-  ): Promise<PPEDetectionResponse> {
-    const formData = createFormData(image, confidenceThreshold);
+  // Get API configuration/capabilities
+  async getConfig(options?: RequestOptions): Promise<APIConfig> {
+    return activeProvider.getConfig(options);
+  },
 
-    return apiRequest<PPEDetectionResponse>("/detect", {
-      method: "POST",
-      headers: {}, // Remove Content-Type to let browser set it for FormData
-      body: formData,
-    });
+  // Load the active provider's config once and use it for validation. Falls
+  // back to the last known config, then to defaults, when offline.
+  async loadConfig(refresh = false): Promise<LoadedAPIConfig> {
+    const provider = activeProvider;
+    return loadAPIConfig(
+      provider.name,
+      () => provider.getConfig(),
+      refresh
+    );
   },
 
-  // Health check endpoint
-  async healthCheck(): Promise<{ status: string; version?: string }> {
-    return apiRequest<{ status: string; version?: string }>("/health");
+  // Provider currently serving requests
+  getProvider(): DetectionProvider {
+    return activeProvider;
   },
 
-  // Get API configuration/capabilities
-  async getConfig(): Promise<{
-    supported_formats: string[];
-    max_file_size: number;
-    max_persons_per_image: number;
-    confidence_range: { min: number; max: number };
-  }> {
-    return apiRequest("/config");
+  // Switch provider at runtime, e.g. to the offline mock for demos
+  setProvider(provider: DetectionProvider | DetectionProviderName): void {
+    activeProvider =
+      typeof provider === "string"
+        ? createDetectionProvider(provider)
+        : provider;
   },
 };
 
+// Result of one registry item for a person. Unsupported items may be absent
+// from the response and are reported as "Not Supported".
+export function getItemResult(
+  result: DetectionResult,
+  itemId: string
+): PPEItemResult {
+  return result.ppe[itemId] || { status: "Not Supported", confidence: 0 };
+}
+
+// Equipment was detected but Rekognition reports it is not covering the body
+// part, e.g. a glove held rather than worn
+export function isNotCovering(item: PPEItemResult): boolean {
+  return item.status === "Detected" && item.coversBodyPart?.value === false;
+}
+
 // Utility function to convert File to base64 (for preview purposes)
 export function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -171,25 +203,31 @@ export function fileToBase64(file: File): Promise<string> {
   });
 }
 
-// Utility function to validate image file
-export function validateImageFile(file: File): {
+// Utility function to validate image file against the active API config
+export function validateImageFile(
+  file: File,
+  config: APIConfig = getActiveConfig()
+): {
   valid: boolean;
   error?: string;
 } {
-  const allowedTypes = ["image/jpeg", "image/jpg", "image/png"];
-  const maxSize = 10 * 1024 * 1024; // 10MB
+  // WebP and HEIC photos are converted to JPEG before upload
+  const allowedTypes = [...config.supported_formats, ...CONVERTIBLE_FORMATS];
 
-  if (!allowedTypes.includes(file.type)) {
+  if (!allowedTypes.includes(file.type) && !isHeicFile(file)) {
     return {
       valid: false,
-      error: "Invalid file type. Please upload a JPEG or PNG image.",
+      error: `Invalid file type. Please upload a ${describeFormats(
+        allowedTypes
+      )} image.`,
     };
   }
 
-  if (file.size > maxSize) {
+  // Larger photos are downsized before upload, so only reject huge files
+  if (file.size > MAX_INPUT_SIZE) {
     return {
       valid: false,
-      error: "File too large. Please upload an image smaller than 10MB.",
+      error: "File too large. Please upload an image smaller than 50MB.",
     };
   }
 
@@ -0,0 +1,236 @@
+// Batch detection: queue many images through the active detection provider
+// with a concurrency limit, per-item retries and cancellation
+import type {
+  DetectOptions,
+  DetectionResult,
+  PPEDetectionResponse,
+  ThresholdRules,
+} from "./api";
+import {
+  APIError,
+  getRetryDelay,
+  isRetryableError,
+  sleep,
+  type APIErrorCode,
+} from "./api-errors";
+import { getImageVerdict, type VerdictOptions } from "./compliance";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+
+export type BatchItemStatus =
+  | "queued"
+  | "processing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  attempts: number;
+  results?: DetectionResult[];
+  processingTime?: number;
+  error?: string;
+  errorCode?: APIErrorCode;
+}
+
+export interface BatchOptions {
+  confidenceThreshold: number;
+  // Per-item threshold bands for the annotated crops
+  thresholds?: ThresholdRules;
+  // Maximum number of images in flight at once
+  concurrency?: number;
+  // Additional attempts per image after a retryable failure. The provider
+  // does not retry batch uploads itself.
+  retries?: number;
+  // Delay before the first retry of an image, doubled for every further one
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  // Called with a fresh copy of an item whenever its state changes
+  onItemUpdate?: (item: BatchItem) => void;
+}
+
+export type DetectFn = (
+  image: File,
+  confidenceThreshold: number,
+  options: DetectOptions
+) => Promise<PPEDetectionResponse>;
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const DEFAULT_BATCH_RETRIES = 2;
+export const DEFAULT_BATCH_RETRY_DELAY_MS = 1000;
+
+let batchItemCounter = 0;
+
+// Wrap files as queued batch items
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files.map((file) => ({
+    id: `batch-${Date.now()}-${batchItemCounter++}`,
+    file,
+    status: "queued",
+    attempts: 0,
+  }));
+}
+
+// Run the given items through `detect`. Items that are already done are
+// skipped, so passing a previous batch reruns only what failed or was
+// cancelled. Resolves with the final state of every item.
+export async function runBatch(
+  items: BatchItem[],
+  detect: DetectFn,
+  options: BatchOptions
+): Promise<BatchItem[]> {
+  const {
+    confidenceThreshold,
+    thresholds,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    retries = DEFAULT_BATCH_RETRIES,
+    retryDelayMs = DEFAULT_BATCH_RETRY_DELAY_MS,
+    signal,
+    onItemUpdate,
+  } = options;
+
+  const state = items.map((item) =>
+    item.status === "done"
+      ? item
+      : {
+          ...item,
+          status: "queued" as const,
+          error: undefined,
+          errorCode: undefined,
+        }
+  );
+  const pending = state
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.status === "queued");
+
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    state[index] = { ...state[index], ...changes };
+    onItemUpdate?.(state[index]);
+  };
+
+  const processNext = async (): Promise<void> => {
+    const next = pending.shift();
+    if (!next) {
+      return;
+    }
+
+    const { index } = next;
+    if (signal?.aborted) {
+      update(index, { status: "cancelled" });
+      return processNext();
+    }
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      update(index, { status: "processing", attempts: attempt + 1 });
+
+      try {
+        const response = await detect(
+          state[index].file,
+          confidenceThreshold,
+          { signal, thresholds }
+        );
+        if (signal?.aborted) {
+          update(index, { status: "cancelled" });
+          break;
+        }
+        if (!response.success) {
+          throw new APIError(
+            response.error,
+            undefined,
+            response,
+            "provider-failure"
+          );
+        }
+
+        update(index, {
+          status: "done",
+          results: response.data.results,
+          processingTime: response.data.processing_time,
+          error: undefined,
+          errorCode: undefined,
+        });
+        break;
+      } catch (error) {
+        if (signal?.aborted) {
+          update(index, { status: "cancelled" });
+          break;
+        }
+        // Rejected images (validation, too large) fail the same way again
+        if (attempt === retries || !isRetryableError(error)) {
+          update(index, {
+            status: "failed",
+            error: error instanceof Error ? error.message : "Detection failed",
+            errorCode:
+              error instanceof APIError ? error.code : "provider-failure",
+          });
+          break;
+        }
+        await sleep(getRetryDelay(error, attempt, retryDelayMs), signal);
+      }
+    }
+
+    return processNext();
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => processNext())
+  );
+
+  return state;
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  remaining: number;
+  persons: number;
+  // Persons with a "Compliant" verdict
+  compliantPersons: number;
+  // Per registry item: how many persons had it detected
+  detectedByItem: Record<string, number>;
+}
+
+// Aggregate compliance figures across all processed images
+export function summarizeBatch(
+  items: BatchItem[],
+  verdictOptions: VerdictOptions = {}
+): BatchSummary {
+  const summary: BatchSummary = {
+    total: items.length,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+    remaining: 0,
+    persons: 0,
+    compliantPersons: 0,
+    detectedByItem: Object.fromEntries(
+      SUPPORTED_PPE_ITEMS.map((item) => [item.id, 0])
+    ),
+  };
+
+  items.forEach((item) => {
+    if (item.status === "done") summary.done++;
+    else if (item.status === "failed") summary.failed++;
+    else if (item.status === "cancelled") summary.cancelled++;
+    else summary.remaining++;
+
+    if (!item.results) return;
+    item.results.forEach((result) => {
+      summary.persons++;
+      SUPPORTED_PPE_ITEMS.forEach((ppeItem) => {
+        if (result.ppe[ppeItem.id]?.status === "Detected") {
+          summary.detectedByItem[ppeItem.id]++;
+        }
+      });
+    });
+    summary.compliantPersons += getImageVerdict(
+      item.results,
+      verdictOptions
+    ).compliant;
+  });
+
+  return summary;
+}
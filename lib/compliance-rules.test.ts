@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest";
+import type { PPEItemResult } from "./api";
+import {
+  evaluateCondition,
+  evaluateRule,
+  parseRuleSet,
+  type ComplianceRule,
+  type RuleCondition,
+  type RuleContext,
+} from "./compliance-rules";
+import { createPerson } from "./test-utils";
+import type { Zone } from "./zones";
+
+const DETECTED: PPEItemResult = { status: "Detected", confidence: 95 };
+const NOT_DETECTED: PPEItemResult = { status: "Not Detected", confidence: 90 };
+
+// Left and right halves of the image; persons stand at the bottom centre of
+// their box
+const ZONES: Zone[] = [
+  {
+    name: "A",
+    kind: "area",
+    points: [
+      { x: 0, y: 0 },
+      { x: 0.5, y: 0 },
+      { x: 0.5, y: 1 },
+      { x: 0, y: 1 },
+    ],
+  },
+  {
+    name: "B",
+    kind: "area",
+    points: [
+      { x: 0.5, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0.5, y: 1 },
+    ],
+  },
+];
+
+const inA = (id: number, ppe?: Record<string, PPEItemResult>) =>
+  createPerson({ x: 0.1, y: 0.1, width: 0.2, height: 0.5 }, ppe, {
+    personId: id,
+  });
+const inB = (id: number, ppe?: Record<string, PPEItemResult>) =>
+  createPerson({ x: 0.6, y: 0.1, width: 0.2, height: 0.5 }, ppe, {
+    personId: id,
+  });
+
+const worker = inA(1);
+const context: RuleContext = {
+  results: [worker, inB(2), inB(3), inB(4)],
+  zones: ZONES,
+};
+
+function holds(condition: RuleCondition, subject = worker): boolean {
+  return evaluateCondition(condition, subject, context).holds;
+}
+
+describe("evaluateCondition", () => {
+  it("always holds", () => {
+    expect(holds({ type: "always" })).toBe(true);
+  });
+
+  it("checks the zone a person stands in", () => {
+    expect(holds({ type: "inZone", zone: "A" })).toBe(true);
+    expect(holds({ type: "inZone", zone: "B" })).toBe(false);
+    expect(holds({ type: "inZone", zone: "Missing" })).toBe(false);
+  });
+
+  it("counts persons in the whole image", () => {
+    const count = (op: ">" | ">=" | "<" | "<=" | "==", value: number) =>
+      holds({ type: "personCount", op, value, scope: "image" });
+    expect(count("==", 4)).toBe(true);
+    expect(count(">", 3)).toBe(true);
+    expect(count(">=", 5)).toBe(false);
+    expect(count("<", 4)).toBe(false);
+    expect(count("<=", 4)).toBe(true);
+  });
+
+  it("counts persons in the same zone only with zone scope", () => {
+    const crowded: RuleCondition = {
+      type: "personCount",
+      op: ">",
+      value: 2,
+      scope: "zone",
+    };
+    expect(holds(crowded, worker)).toBe(false);
+    expect(holds(crowded, context.results[1])).toBe(true);
+    expect(evaluateCondition(crowded, worker, context).reason).toBe(
+      "with more than 2 people in the same area (1)"
+    );
+  });
+
+  it("groups persons outside every zone into one area", () => {
+    const outside = { results: [inA(1), inB(2)], zones: [] };
+    expect(
+      evaluateCondition(
+        { type: "personCount", op: "==", value: 2, scope: "zone" },
+        outside.results[0],
+        outside
+      ).holds
+    ).toBe(true);
+  });
+
+  it("checks the status of another item", () => {
+    const unmasked = inA(5, { faceMask: NOT_DETECTED });
+    const condition: RuleCondition = {
+      type: "itemStatus",
+      item: "faceMask",
+      status: ["Not Detected", "Indeterminate"],
+    };
+    expect(holds(condition, unmasked)).toBe(true);
+    expect(holds(condition, worker)).toBe(false);
+  });
+
+  it("compares the person confidence", () => {
+    const unsure = createPerson(
+      { x: 0, y: 0, width: 0.1, height: 0.1 },
+      {},
+      { personId: 6, confidence: 60 }
+    );
+    const condition: RuleCondition = {
+      type: "personConfidence",
+      op: "<",
+      value: 70,
+    };
+    expect(holds(condition, unsure)).toBe(true);
+    expect(holds(condition, worker)).toBe(false);
+  });
+
+  it("compares the share of the image the box covers", () => {
+    // The worker's box covers 0.2 x 0.5 = 10% of the image
+    expect(holds({ type: "boxArea", op: ">=", value: 0.1 })).toBe(true);
+    expect(holds({ type: "boxArea", op: ">", value: 0.1 })).toBe(false);
+  });
+
+  it("combines conditions with and, or and not", () => {
+    const inZoneA: RuleCondition = { type: "inZone", zone: "A" };
+    const inZoneB: RuleCondition = { type: "inZone", zone: "B" };
+    expect(holds({ type: "and", conditions: [inZoneA, inZoneB] })).toBe(false);
+    expect(holds({ type: "or", conditions: [inZoneA, inZoneB] })).toBe(true);
+    expect(holds({ type: "not", condition: inZoneB })).toBe(true);
+  });
+
+  it("evaluates nested conditions", () => {
+    // In zone A, unless alone there, or in a crowded image
+    const condition: RuleCondition = {
+      type: "or",
+      conditions: [
+        {
+          type: "and",
+          conditions: [
+            { type: "inZone", zone: "A" },
+            {
+              type: "not",
+              condition: {
+                type: "personCount",
+                op: "==",
+                value: 1,
+                scope: "zone",
+              },
+            },
+          ],
+        },
+        { type: "personCount", op: ">", value: 3, scope: "image" },
+      ],
+    };
+    const result = evaluateCondition(condition, worker, context);
+    expect(result.holds).toBe(true);
+    expect(result.reason).toBe(
+      "inside zone A and unless with exactly 1 people in the same area (1) or with more than 3 people in the image (4)"
+    );
+    // Alone in zone A and in the image
+    expect(
+      evaluateCondition(condition, worker, { ...context, results: [worker] })
+        .holds
+    ).toBe(false);
+  });
+});
+
+describe("evaluateRule", () => {
+  const rule: ComplianceRule = {
+    id: "gloves-zone-a",
+    description: "Gloves in zone A",
+    require: "handProtectionL",
+    when: { type: "inZone", zone: "A" },
+  };
+
+  it("does not apply when the condition does not hold", () => {
+    expect(evaluateRule(rule, inB(2), context)).toBeNull();
+  });
+
+  it("is satisfied when the item is detected", () => {
+    const evaluation = evaluateRule(rule, worker, context);
+    expect(evaluation?.outcome).toBe("satisfied");
+    expect(evaluation?.explanation).toBe(
+      "Gloves in zone A: Hand Protection (L) required inside zone A, found Detected"
+    );
+  });
+
+  it("is violated when the item is not detected", () => {
+    const bare = inA(5, { handProtectionL: NOT_DETECTED });
+    expect(evaluateRule(rule, bare, context)?.outcome).toBe("violated");
+  });
+
+  it("is violated when the item is held rather than worn", () => {
+    const holding = inA(5, {
+      handProtectionL: {
+        ...DETECTED,
+        coversBodyPart: { value: false, confidence: 90 },
+      },
+    });
+    const evaluation = evaluateRule(rule, holding, context);
+    expect(evaluation?.outcome).toBe("violated");
+    expect(evaluation?.explanation).toContain(
+      "found Detected but not covering"
+    );
+  });
+
+  it("is undecided when the item is indeterminate or not visible", () => {
+    const unsure = inA(5, {
+      handProtectionL: { status: "Indeterminate", confidence: 60 },
+    });
+    const hidden = inA(6, {
+      handProtectionL: { status: "Not Visible", confidence: 0 },
+    });
+    expect(evaluateRule(rule, unsure, context)?.outcome).toBe("undecided");
+    expect(evaluateRule(rule, hidden, context)?.outcome).toBe("undecided");
+  });
+});
+
+describe("parseRuleSet", () => {
+  const ruleSet = (rules: unknown[]) =>
+    JSON.stringify({ name: "Site rules", rules });
+
+  it("parses a rule set and defaults the condition to always", () => {
+    const parsed = parseRuleSet(ruleSet([{ id: "hat", require: "hardHat" }]));
+    expect(parsed.rules[0].when).toEqual({ type: "always" });
+    expect(parsed.zones).toEqual([]);
+  });
+
+  it("rejects a rule requiring an unknown item", () => {
+    expect(() =>
+      parseRuleSet(ruleSet([{ id: "goggles", require: "goggles" }]))
+    ).toThrow("Invalid rule set: rules.0.require is not a supported PPE item");
+  });
+
+  it("rejects a condition on an unknown item", () => {
+    expect(() =>
+      parseRuleSet(
+        ruleSet([
+          {
+            id: "hat",
+            require: "hardHat",
+            when: { type: "itemStatus", item: "goggles", status: ["Detected"] },
+          },
+        ])
+      )
+    ).toThrow("is not a supported PPE item");
+  });
+
+  it("rejects duplicate rule ids", () => {
+    expect(() =>
+      parseRuleSet(
+        ruleSet([
+          { id: "hat", require: "hardHat" },
+          { id: "hat", require: "faceMask" },
+        ])
+      )
+    ).toThrow("Invalid rule set: rules must have unique ids");
+  });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parseRuleSet("{rules: []")).toThrow(
+      "The rules are not valid JSON"
+    );
+  });
+});
@@ -0,0 +1,355 @@
+// Declarative compliance rules evaluated over detection results.
+//
+// A rule requires one PPE item of every person for whom its `when` condition
+// holds, e.g. "hand cover required inside zone B". Conditions look at the
+// person's fields, bounding box and zone, and at the other persons of the
+// image. Rule sets are plain JSON (validated with RuleSetSchema below) and
+// every evaluation carries a readable explanation for the UI and the PDF.
+import { z } from "zod";
+import { getItemResult, isNotCovering, type DetectionResult } from "./api";
+import { PPEStatusSchema } from "./detection-contract";
+import { getPPEItem, SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import { readStored, removeStored, writeStored } from "./storage";
+import { findZonesForBox, ZoneSchema, type Zone } from "./zones";
+
+const ComparisonSchema = z.enum([">", ">=", "<", "<=", "=="]);
+
+export type Comparison = z.infer<typeof ComparisonSchema>;
+
+export type RuleCondition =
+  | { type: "always" }
+  // Person stands inside the named zone
+  | { type: "inZone"; zone: string }
+  // Persons in the whole image, or in the same zone as this person (persons
+  // outside every zone share one area)
+  | {
+      type: "personCount";
+      op: Comparison;
+      value: number;
+      scope: "image" | "zone";
+    }
+  // Status of another PPE item of the same person
+  | { type: "itemStatus"; item: string; status: z.infer<typeof PPEStatusSchema>[] }
+  // Person detection confidence (%)
+  | { type: "personConfidence"; op: Comparison; value: number }
+  // Share of the image covered by the person's box (0-1)
+  | { type: "boxArea"; op: Comparison; value: number }
+  | { type: "and"; conditions: RuleCondition[] }
+  | { type: "or"; conditions: RuleCondition[] }
+  | { type: "not"; condition: RuleCondition };
+
+const itemIdSchema = z
+  .string()
+  .refine((id) => SUPPORTED_PPE_ITEMS.some((item) => item.id === id), {
+    message: "is not a supported PPE item",
+  });
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.discriminatedUnion("type", [
+    z.object({ type: z.literal("always") }),
+    z.object({ type: z.literal("inZone"), zone: z.string().min(1) }),
+    z.object({
+      type: z.literal("personCount"),
+      op: ComparisonSchema,
+      value: z.number().int().nonnegative(),
+      scope: z.enum(["image", "zone"]).default("image"),
+    }),
+    z.object({
+      type: z.literal("itemStatus"),
+      item: itemIdSchema,
+      status: z.array(PPEStatusSchema).min(1),
+    }),
+    z.object({
+      type: z.literal("personConfidence"),
+      op: ComparisonSchema,
+      value: z.number().min(0).max(100),
+    }),
+    z.object({
+      type: z.literal("boxArea"),
+      op: ComparisonSchema,
+      value: z.number().min(0).max(1),
+    }),
+    z.object({
+      type: z.literal("and"),
+      conditions: z.array(RuleConditionSchema).min(1),
+    }),
+    z.object({
+      type: z.literal("or"),
+      conditions: z.array(RuleConditionSchema).min(1),
+    }),
+    z.object({ type: z.literal("not"), condition: RuleConditionSchema }),
+  ])
+) as z.ZodType<RuleCondition>;
+
+export const ComplianceRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  // PPE item the rule requires
+  require: itemIdSchema,
+  when: RuleConditionSchema.default({ type: "always" }),
+});
+
+export const RuleSetSchema = z.object({
+  name: z.string().trim().min(1),
+  rules: z.array(ComplianceRuleSchema),
+  // Zones the rules refer to by name
+  zones: z.array(ZoneSchema).default([]),
+}).refine(
+  (ruleSet) =>
+    new Set(ruleSet.rules.map((rule) => rule.id)).size === ruleSet.rules.length,
+  { message: "must have unique ids", path: ["rules"] }
+);
+
+export type ComplianceRule = z.infer<typeof ComplianceRuleSchema>;
+export type RuleSet = z.infer<typeof RuleSetSchema>;
+
+export type RuleOutcome = "satisfied" | "violated" | "undecided";
+
+export interface RuleEvaluation {
+  ruleId: string;
+  itemId: string;
+  outcome: RuleOutcome;
+  // e.g. "Gloves in zone B: Hand Protection (L) required inside zone B,
+  // found Not Detected"
+  explanation: string;
+}
+
+export interface RuleContext {
+  results: DetectionResult[];
+  zones: Zone[];
+}
+
+const COMPARISON_WORDS: Record<Comparison, string> = {
+  ">": "more than",
+  ">=": "at least",
+  "<": "fewer than",
+  "<=": "at most",
+  "==": "exactly",
+};
+
+function getItemLabel(itemId: string): string {
+  return getPPEItem(itemId)?.label ?? itemId;
+}
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+  switch (op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "==":
+      return actual === expected;
+  }
+}
+
+// Name of the first zone a person stands in, null outside every zone
+function getPersonArea(person: DetectionResult, zones: Zone[]): string | null {
+  if (!person.boundingBox) return null;
+  return findZonesForBox(person.boundingBox, zones)[0]?.name ?? null;
+}
+
+// Whether the condition holds for the person, with the reason in words
+export function evaluateCondition(
+  condition: RuleCondition,
+  person: DetectionResult,
+  context: RuleContext
+): { holds: boolean; reason: string } {
+  switch (condition.type) {
+    case "always":
+      return { holds: true, reason: "everywhere" };
+
+    case "inZone": {
+      const zone = context.zones.find((z) => z.name === condition.zone);
+      const holds = Boolean(
+        zone &&
+          person.boundingBox &&
+          findZonesForBox(person.boundingBox, [zone]).length > 0
+      );
+      return { holds, reason: `inside zone ${condition.zone}` };
+    }
+
+    case "personCount": {
+      const area = getPersonArea(person, context.zones);
+      const count =
+        condition.scope === "zone"
+          ? context.results.filter(
+              (other) => getPersonArea(other, context.zones) === area
+            ).length
+          : context.results.length;
+      return {
+        holds: compare(count, condition.op, condition.value),
+        reason: `with ${COMPARISON_WORDS[condition.op]} ${
+          condition.value
+        } people ${
+          condition.scope === "zone" ? "in the same area" : "in the image"
+        } (${count})`,
+      };
+    }
+
+    case "itemStatus": {
+      const status = getItemResult(person, condition.item).status;
+      return {
+        holds: condition.status.includes(status),
+        reason: `when ${getItemLabel(condition.item)} is ${condition.status.join(
+          " or "
+        )}`,
+      };
+    }
+
+    case "personConfidence":
+      return {
+        holds: compare(person.confidence, condition.op, condition.value),
+        reason: `when person confidence is ${COMPARISON_WORDS[condition.op]} ${
+          condition.value
+        }%`,
+      };
+
+    case "boxArea": {
+      const box = person.boundingBox;
+      const area = box ? box.width * box.height : 0;
+      return {
+        holds: compare(area, condition.op, condition.value),
+        reason: `when the person covers ${COMPARISON_WORDS[condition.op]} ${
+          condition.value * 100
+        }% of the image`,
+      };
+    }
+
+    case "and":
+    case "or": {
+      const parts = condition.conditions.map((part) =>
+        evaluateCondition(part, person, context)
+      );
+      return {
+        holds:
+          condition.type === "and"
+            ? parts.every((part) => part.holds)
+            : parts.some((part) => part.holds),
+        reason: parts
+          .map((part) => part.reason)
+          .join(condition.type === "and" ? " and " : " or "),
+      };
+    }
+
+    case "not": {
+      const inner = evaluateCondition(condition.condition, person, context);
+      return { holds: !inner.holds, reason: `unless ${inner.reason}` };
+    }
+  }
+}
+
+// Outcome of one rule for one person, or null when the rule does not apply
+export function evaluateRule(
+  rule: ComplianceRule,
+  person: DetectionResult,
+  context: RuleContext
+): RuleEvaluation | null {
+  const condition = evaluateCondition(rule.when, person, context);
+  if (!condition.holds) return null;
+
+  const item = getItemResult(person, rule.require);
+  const outcome: RuleOutcome =
+    item.status === "Not Detected" || isNotCovering(item)
+      ? "violated"
+      : item.status === "Detected"
+      ? "satisfied"
+      : "undecided";
+  const status = isNotCovering(item) ? "Detected but not covering" : item.status;
+  const label = rule.description || rule.id;
+  const itemLabel = getItemLabel(rule.require);
+
+  return {
+    ruleId: rule.id,
+    itemId: rule.require,
+    outcome,
+    explanation: `${label}: ${itemLabel} required ${condition.reason}, found ${status}`,
+  };
+}
+
+// Evaluations of every applicable rule, by person ID
+export function evaluateRuleSet(
+  ruleSet: RuleSet,
+  results: DetectionResult[],
+  zones: Zone[] = ruleSet.zones
+): Record<number, RuleEvaluation[]> {
+  const context: RuleContext = { results, zones };
+  return Object.fromEntries(
+    results.map((person) => [
+      person.personId,
+      ruleSet.rules.flatMap((rule) => {
+        const evaluation = evaluateRule(rule, person, context);
+        return evaluation ? [evaluation] : [];
+      }),
+    ])
+  );
+}
+
+// Rule set from JSON text. Throws with a readable message when the JSON does
+// not describe a rule set.
+export function parseRuleSet(json: string): RuleSet {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The rules are not valid JSON");
+  }
+
+  const parsed = RuleSetSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid rule set: ${issue.path.join(".") || "root"} ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+export const EXAMPLE_RULE_SET: RuleSet = {
+  name: "Example site rules",
+  rules: [
+    {
+      id: "head-cover",
+      description: "Head cover everywhere",
+      require: "hardHat",
+      when: { type: "always" },
+    },
+    {
+      id: "gloves-zone-b",
+      description: "Gloves in zone B",
+      require: "handProtectionL",
+      when: { type: "inZone", zone: "B" },
+    },
+    {
+      id: "gloves-zone-b-right",
+      description: "Gloves in zone B",
+      require: "handProtectionR",
+      when: { type: "inZone", zone: "B" },
+    },
+    {
+      id: "face-cover-crowded",
+      description: "Face cover in crowded areas",
+      require: "faceMask",
+      when: { type: "personCount", op: ">", value: 3, scope: "zone" },
+    },
+  ],
+  zones: [],
+};
+
+const STORAGE_KEY = "ppe-detection:compliance-rules";
+
+// Rule set in use in the previous session, if any
+export function loadStoredRuleSet(): RuleSet | null {
+  return readStored(STORAGE_KEY, RuleSetSchema);
+}
+
+export function storeRuleSet(ruleSet: RuleSet | null): void {
+  if (ruleSet) {
+    writeStored(STORAGE_KEY, ruleSet);
+  } else {
+    removeStored(STORAGE_KEY);
+  }
+}
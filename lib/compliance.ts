@@ -0,0 +1,131 @@
+// Overall compliance verdicts computed from the per-item statuses, for each
+// person and for the whole image, judged against a site requirement profile
+// and optional compliance rules. Evaluate them on results that already had
+// the thresholds applied so they follow the threshold controls.
+import { DetectionResult, getItemResult, isNotCovering } from "./api";
+import { SUPPORTED_PPE_ITEMS, type PPEItemDefinition } from "./ppe-items";
+import {
+  evaluateRuleSet,
+  type RuleEvaluation,
+  type RuleSet,
+} from "./compliance-rules";
+import type { Zone } from "./zones";
+import {
+  DEFAULT_REQUIREMENT_PROFILE,
+  getRequirement,
+  type RequirementProfile,
+} from "./requirement-profiles";
+
+export type ComplianceVerdict = "Compliant" | "Non-compliant" | "Needs review";
+
+export interface PersonVerdict {
+  personId: number;
+  // Added by a reviewer rather than found by the model
+  isManual: boolean;
+  verdict: ComplianceVerdict;
+  // Required items not detected, or detected but not covering the body part
+  missingItems: PPEItemDefinition[];
+  // Required items indeterminate or not visible: a person has to check these
+  reviewItems: PPEItemDefinition[];
+  // Compliance rules that applied to the person
+  ruleEvaluations: RuleEvaluation[];
+}
+
+export interface ImageVerdict {
+  verdict: ComplianceVerdict;
+  compliant: number;
+  total: number;
+  persons: PersonVerdict[];
+}
+
+export interface VerdictOptions {
+  profile?: RequirementProfile;
+  ruleSet?: RuleSet | null;
+  // Zones for the rules; defaults to the zones of the rule set
+  zones?: Zone[];
+}
+
+// A missing required item makes the person non-compliant; otherwise any
+// required item that could not be decided needs a review. Items are required
+// by the profile or by any compliance rule that applied to the person;
+// optional and not applicable items never affect the verdict otherwise.
+export function getPersonVerdict(
+  result: DetectionResult,
+  profile: RequirementProfile = DEFAULT_REQUIREMENT_PROFILE,
+  ruleEvaluations: RuleEvaluation[] = []
+): PersonVerdict {
+  const missingItems: PPEItemDefinition[] = [];
+  const reviewItems: PPEItemDefinition[] = [];
+  const ruleItems = new Set(ruleEvaluations.map((rule) => rule.itemId));
+
+  SUPPORTED_PPE_ITEMS.forEach((item) => {
+    if (
+      getRequirement(profile, item.id) !== "required" &&
+      !ruleItems.has(item.id)
+    ) {
+      return;
+    }
+    const itemResult = getItemResult(result, item.id);
+    if (itemResult.status === "Not Detected" || isNotCovering(itemResult)) {
+      missingItems.push(item);
+    } else if (
+      itemResult.status === "Indeterminate" ||
+      itemResult.status === "Not Visible"
+    ) {
+      reviewItems.push(item);
+    }
+  });
+
+  const verdict: ComplianceVerdict =
+    missingItems.length > 0
+      ? "Non-compliant"
+      : reviewItems.length > 0
+      ? "Needs review"
+      : "Compliant";
+
+  return {
+    personId: result.personId,
+    isManual: result.source === "manual",
+    verdict,
+    missingItems,
+    reviewItems,
+    ruleEvaluations,
+  };
+}
+
+// The image is only compliant when every person in it is
+export function getImageVerdict(
+  results: DetectionResult[],
+  { profile, ruleSet, zones }: VerdictOptions = {}
+): ImageVerdict {
+  const evaluations = ruleSet ? evaluateRuleSet(ruleSet, results, zones) : {};
+  const persons = results.map((result) =>
+    getPersonVerdict(result, profile, evaluations[result.personId])
+  );
+  const has = (verdict: ComplianceVerdict) =>
+    persons.some((person) => person.verdict === verdict);
+
+  return {
+    verdict: has("Non-compliant")
+      ? "Non-compliant"
+      : has("Needs review")
+      ? "Needs review"
+      : "Compliant",
+    compliant: persons.filter((person) => person.verdict === "Compliant")
+      .length,
+    total: persons.length,
+    persons,
+  };
+}
+
+// Items a compliance rule requires of the person, whatever the profile says
+export function getRuleRequiredItems(verdict: PersonVerdict): string[] {
+  return verdict.ruleEvaluations.map((evaluation) => evaluation.itemId);
+}
+
+// Rules a person broke or that could not be decided, for display
+export function getRuleFindings(verdict: PersonVerdict): RuleEvaluation[] {
+  return verdict.ruleEvaluations.filter(
+    (evaluation) => evaluation.outcome !== "satisfied"
+  );
+}
@@ -0,0 +1,167 @@
+// Shared request/response contract for the PPE Detection API.
+//
+// This module is plain CommonJS so that both the Next.js client (through
+// lib/api.ts) and the Express backend (server/app.js) can load the exact same
+// schema definitions.
+const { z } = require("zod");
+const { PPE_ITEMS } = require("./ppe-items");
+
+// Detection status reported for a PPE item. "Not Visible" means the body part
+// itself was not found (e.g. a hand hidden behind the body), which is
+// different from the body part being visible without equipment. Items the
+// backend cannot detect are reported as "Not Supported".
+const PPEStatusSchema = z.enum([
+  "Detected",
+  "Not Detected",
+  "Indeterminate",
+  "Not Visible",
+  "Not Supported",
+]);
+
+// Confidence values are percentages rounded by the backend
+const ConfidenceSchema = z.number().min(0).max(100);
+
+// Bounding boxes are ratios of the original image size (0 - 1)
+const BoundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+// Rekognition's CoversBodyPart: whether the equipment is actually worn on
+// the body part (e.g. a glove held in the hand does not cover it)
+const CoversBodyPartSchema = z.object({
+  value: z.boolean(),
+  confidence: ConfidenceSchema,
+});
+
+const PPEItemResultSchema = z.object({
+  status: PPEStatusSchema,
+  confidence: ConfidenceSchema,
+  // Confidence that the body part itself was found
+  bodyPartConfidence: ConfidenceSchema.optional(),
+  // Equipment location, only present when equipment was detected
+  equipmentBox: BoundingBoxSchema.optional(),
+  coversBodyPart: CoversBodyPartSchema.optional(),
+});
+
+// One entry per item of the PPE registry, keyed by item id. Unsupported
+// items may be omitted.
+const PPEResultsSchema = z.object(
+  Object.fromEntries(
+    PPE_ITEMS.map((item) => [
+      item.id,
+      item.supported ? PPEItemResultSchema : PPEItemResultSchema.optional(),
+    ])
+  )
+);
+
+// Where a result came from: the detection model, or a reviewer who drew a
+// person the model missed. Results from the API leave it out.
+const ResultSourceSchema = z.enum(["model", "manual"]);
+
+const DetectionResultSchema = z.object({
+  personId: z.number().int().positive(),
+  confidence: ConfidenceSchema,
+  image: z.string(),
+  boundingBox: BoundingBoxSchema.optional(),
+  ppe: PPEResultsSchema,
+  source: ResultSourceSchema.optional(),
+});
+
+const ImageMetadataSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  format: z.string(),
+});
+
+const PPEDetectionSuccessSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    results: z.array(DetectionResultSchema),
+    processing_time: z.number().nonnegative(),
+    image_metadata: ImageMetadataSchema.optional(),
+  }),
+  message: z.string().optional(),
+});
+
+const PPEDetectionFailureSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  message: z.string().optional(),
+});
+
+const PPEDetectionResponseSchema = z.discriminatedUnion("success", [
+  PPEDetectionSuccessSchema,
+  PPEDetectionFailureSchema,
+]);
+
+// Three-band threshold of one PPE item (see threshold-rules.js)
+const ItemThresholdSchema = z
+  .object({
+    detected: ConfidenceSchema,
+    indeterminate: ConfidenceSchema,
+  })
+  .refine((threshold) => threshold.indeterminate <= threshold.detected, {
+    message: "indeterminate must not be above detected",
+  });
+
+const ThresholdRulesSchema = z.object({
+  default: ItemThresholdSchema,
+  items: z.record(ItemThresholdSchema).default({}),
+});
+
+// Multipart fields are strings, so structured fields are sent as JSON
+function parseJSONField(value) {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Non-file fields of the multipart /api/detect request. Multipart values
+// arrive as strings on the server, hence the coercion.
+const PPEDetectionRequestSchema = z.object({
+  confidence_threshold: z.coerce.number().min(0).max(100).default(80),
+  // Per-item thresholds for the annotated crops; defaults to
+  // confidence_threshold for every item
+  thresholds: z.preprocess(parseJSONField, ThresholdRulesSchema.optional()),
+});
+
+const HealthResponseSchema = z.object({
+  status: z.string(),
+  version: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const APIConfigSchema = z.object({
+  supported_formats: z.array(z.string()),
+  max_file_size: z.number().int().positive(),
+  max_persons_per_image: z.number().int().positive(),
+  confidence_range: z.object({
+    min: z.number(),
+    max: z.number(),
+    // Increment of the threshold controls
+    step: z.number().positive().default(5),
+  }),
+});
+
+module.exports = {
+  PPEStatusSchema,
+  PPEItemResultSchema,
+  PPEResultsSchema,
+  BoundingBoxSchema,
+  CoversBodyPartSchema,
+  ResultSourceSchema,
+  DetectionResultSchema,
+  ImageMetadataSchema,
+  PPEDetectionResponseSchema,
+  PPEDetectionRequestSchema,
+  ItemThresholdSchema,
+  ThresholdRulesSchema,
+  HealthResponseSchema,
+  APIConfigSchema,
+};
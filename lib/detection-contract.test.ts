@@ -0,0 +1,159 @@
+// Contract tests over recorded Rekognition payloads: what the backend and
+// the offline providers build must parse, and drifted shapes must not
+import { describe, expect, it } from "vitest";
+import { APIContractError, parseContract } from "./api-errors";
+import {
+  PPEDetectionRequestSchema,
+  PPEDetectionResponseSchema,
+} from "./detection-contract";
+import { PPE_ITEMS } from "./ppe-items";
+import { mapPersonToResult } from "./rekognition-mapping";
+import siteInspectionPair from "./fixtures/rekognition/site-inspection-pair.json";
+import undergroundMiner from "./fixtures/rekognition/underground-miner.json";
+import workerWithBoundingBoxes from "./fixtures/rekognition/worker-with-bb.json";
+
+const RECORDINGS = [
+  siteInspectionPair,
+  undergroundMiner,
+  workerWithBoundingBoxes,
+];
+
+function detectResponse(results: unknown[]) {
+  return {
+    success: true,
+    data: {
+      results,
+      processing_time: 0.42,
+      image_metadata: { width: 1180, height: 832, format: "png" },
+    },
+  };
+}
+
+describe("recorded Rekognition payloads", () => {
+  it.each(RECORDINGS.map((recording) => [recording.file, recording]))(
+    "%s maps to a valid /detect response",
+    (_file, recording) => {
+      const results = recording.response.Persons.map((person, index) =>
+        mapPersonToResult(person, index, `crop-${index + 1}.png`)
+      );
+
+      const parsed = parseContract(
+        "/detect",
+        PPEDetectionResponseSchema,
+        detectResponse(results)
+      );
+
+      if (!parsed.success) throw new Error("expected a success response");
+      expect(parsed.data.results).toHaveLength(
+        recording.response.Persons.length
+      );
+      parsed.data.results.forEach((result, index) => {
+        expect(result.personId).toBe(index + 1);
+        PPE_ITEMS.forEach((item) => {
+          expect(result.ppe[item.id]?.status).toEqual(
+            item.supported ? expect.any(String) : "Not Supported"
+          );
+        });
+      });
+    }
+  );
+
+  it("rejects the old flat result shape", () => {
+    const drifted = detectResponse([
+      {
+        personId: 1,
+        confidence: 98,
+        image: "crop-1.png",
+        hardHat: { status: "Detected", confidence: 97 },
+        safetyVest: { status: "Not Supported", confidence: 0 },
+      },
+    ]);
+
+    expect(() =>
+      parseContract("/detect", PPEDetectionResponseSchema, drifted)
+    ).toThrow(APIContractError);
+  });
+
+  it("names the drifted field in the error", () => {
+    const results = [
+      mapPersonToResult(
+        undergroundMiner.response.Persons[0],
+        0,
+        "crop-1.png"
+      ),
+    ].map((result) => ({ ...result, confidence: "high" }));
+
+    try {
+      parseContract(
+        "/detect",
+        PPEDetectionResponseSchema,
+        detectResponse(results)
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(APIContractError);
+      expect((error as APIContractError).code).toBe("provider-failure");
+      expect((error as APIContractError).message).toContain(
+        "data.results.0.confidence"
+      );
+    }
+  });
+});
+
+describe("PPEDetectionRequestSchema", () => {
+  it("coerces a multipart confidence_threshold string", () => {
+    const parsed = PPEDetectionRequestSchema.parse({
+      confidence_threshold: "65",
+    });
+    expect(parsed.confidence_threshold).toBe(65);
+    expect(parsed.thresholds).toBeUndefined();
+  });
+
+  it("defaults the confidence threshold to 80", () => {
+    expect(PPEDetectionRequestSchema.parse({}).confidence_threshold).toBe(80);
+  });
+
+  it("rejects a confidence_threshold out of range or not a number", () => {
+    expect(
+      PPEDetectionRequestSchema.safeParse({ confidence_threshold: "120" })
+        .success
+    ).toBe(false);
+    expect(
+      PPEDetectionRequestSchema.safeParse({ confidence_threshold: "high" })
+        .success
+    ).toBe(false);
+  });
+
+  it("parses thresholds sent as JSON", () => {
+    const parsed = PPEDetectionRequestSchema.parse({
+      confidence_threshold: "80",
+      thresholds: JSON.stringify({
+        default: { detected: 80, indeterminate: 50 },
+        items: { hardHat: { detected: 90, indeterminate: 60 } },
+      }),
+    });
+    expect(parsed.thresholds?.items.hardHat).toEqual({
+      detected: 90,
+      indeterminate: 60,
+    });
+  });
+
+  it("rejects malformed thresholds JSON", () => {
+    expect(
+      PPEDetectionRequestSchema.safeParse({
+        confidence_threshold: "80",
+        thresholds: "{default: 80",
+      }).success
+    ).toBe(false);
+  });
+
+  it("rejects thresholds with indeterminate above detected", () => {
+    expect(
+      PPEDetectionRequestSchema.safeParse({
+        thresholds: JSON.stringify({
+          default: { detected: 50, indeterminate: 80 },
+        }),
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+// Deterministic scenes used by the mock detection provider for the images in
+// test_images/. Each person lists the equipment confidence per body part:
+// a number is the equipment confidence, 0 means the body part is visible
+// without equipment and a missing key means the body part is not visible.
+// Body parts listed in `uncovered` carry equipment that does not cover them.
+export type MockBodyPart = "head" | "face" | "leftHand" | "rightHand";
+
+export interface MockPersonSpec {
+  box: [left: number, top: number, width: number, height: number];
+  confidence: number;
+  head?: number;
+  face?: number;
+  leftHand?: number;
+  rightHand?: number;
+  uncovered?: MockBodyPart[];
+}
+
+export interface MockScene {
+  file: string;
+  fingerprint: string;
+  persons: MockPersonSpec[];
+}
+
+export const MOCK_SCENES: MockScene[] = [
+  {
+    file: "WhatsApp Image 2025-08-06 at 02.20.36_c260d2ed.jpg",
+    fingerprint: "1a0022d8",
+    persons: [
+      { box: [0.13, 0.08, 0.35, 0.92], confidence: 99.5, head: 98.9, face: 0, leftHand: 0, rightHand: 62.4, uncovered: ["rightHand"] },
+      { box: [0.45, 0.06, 0.37, 0.94], confidence: 99.7, head: 99.6, face: 99.1, leftHand: 91.4, rightHand: 88.1 },
+    ],
+  },
+  {
+    file: "WhatsApp Image 2025-08-06 at 02.20.44_c2679066.jpg",
+    fingerprint: "76702115",
+    persons: [
+      { box: [0.33, 0.02, 0.6, 0.98], confidence: 99.3, head: 97.6, face: 99.3, rightHand: 93.9 },
+    ],
+  },
+  {
+    file: "WhatsApp Image 2025-08-06 at 02.20.55_f081c652.jpg",
+    fingerprint: "d4de96c4",
+    persons: [
+      { box: [0.02, 0.28, 0.1, 0.62], confidence: 91.2, head: 0, face: 0, leftHand: 0 },
+      { box: [0.2, 0.27, 0.16, 0.66], confidence: 97.4, head: 88.7, face: 0, leftHand: 0, rightHand: 0 },
+      { box: [0.38, 0.24, 0.14, 0.7], confidence: 96.8, head: 91.3, face: 0, rightHand: 0 },
+      { box: [0.51, 0.24, 0.13, 0.7], confidence: 96.1, head: 93.5, face: 0, leftHand: 0, rightHand: 0 },
+      { box: [0.63, 0.22, 0.12, 0.72], confidence: 95.5, head: 92.2, face: 0, leftHand: 0 },
+      { box: [0.74, 0.21, 0.12, 0.74], confidence: 97.9, head: 94.8, face: 0, leftHand: 0, rightHand: 0 },
+    ],
+  },
+  {
+    file: "WhatsApp Image 2025-08-06 at 02.21.02_bb07f2eb.jpg",
+    fingerprint: "9375ac6e",
+    persons: [
+      { box: [0.18, 0.11, 0.2, 0.89], confidence: 98.6, head: 97.2, face: 0, leftHand: 0, rightHand: 0 },
+      { box: [0.39, 0.06, 0.18, 0.94], confidence: 99.1, head: 98.4, face: 0, leftHand: 86.3, rightHand: 84.9 },
+      { box: [0.54, 0.08, 0.12, 0.8], confidence: 94.7, head: 96.1, face: 0, rightHand: 79.2 },
+      { box: [0.65, 0.08, 0.15, 0.9], confidence: 97.3, head: 97.7, face: 0, leftHand: 0 },
+    ],
+  },
+  {
+    file: "WhatsApp Image 2025-08-06 at 02.21.09_2d00f1c2.jpg",
+    fingerprint: "8949a3e9",
+    persons: [
+      { box: [0.36, 0.15, 0.5, 0.85], confidence: 99.6, head: 99.2, face: 71.8, rightHand: 0, uncovered: ["face"] },
+    ],
+  },
+  {
+    file: "construction-site-build-construction-work-159306.jpeg",
+    fingerprint: "9eb7f732",
+    persons: [
+      { box: [0.41, 0.42, 0.13, 0.36], confidence: 98.8, head: 97.5, face: 0, leftHand: 0, rightHand: 0 },
+      { box: [0.63, 0.35, 0.07, 0.35], confidence: 97.6, head: 98.9, face: 0, leftHand: 0 },
+    ],
+  },
+  {
+    file: "gulf_ppe_detection_architecture.jpg",
+    fingerprint: "012e6465",
+    persons: [],
+  },
+  {
+    file: "ppe-detection-with-ai-camera.jpg",
+    fingerprint: "cb374cf7",
+    persons: [
+      { box: [0.28, 0.36, 0.46, 0.64], confidence: 99.8, head: 99.4, face: 0, leftHand: 97.1 },
+      { box: [0.0, 0.56, 0.23, 0.44], confidence: 98.2, head: 98.7, face: 0 },
+      { box: [0.77, 0.53, 0.23, 0.47], confidence: 98.5, head: 99.0, face: 0 },
+    ],
+  },
+  {
+    file: "worker-with-bb.png",
+    fingerprint: "0afc054e",
+    persons: [
+      { box: [0.02, 0.04, 0.76, 0.94], confidence: 99.9, head: 99.5, face: 98.4, leftHand: 94.1, rightHand: 96.8 },
+    ],
+  },
+];
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { readExifOrientation } from "./image-preprocess";
+
+// JPEG start, then an APP1 segment holding the given TIFF header and IFD
+function jpegWithExif(tiff: number[]): Uint8Array {
+  const app1 = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  const length = app1.length + 2;
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe1,
+    length >> 8,
+    length & 0xff,
+    ...app1,
+  ]);
+}
+
+// Big-endian TIFF header with one IFD entry: orientation (0x0112), SHORT
+function orientationTiff(orientation: number, ifdOffset = 8): number[] {
+  return [
+    0x4d, 0x4d, 0, 0x2a,
+    ...[0, 0, 0, ifdOffset],
+    ...[0, 1],
+    ...[0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0],
+  ];
+}
+
+describe("readExifOrientation", () => {
+  it("reads the orientation tag", () => {
+    expect(readExifOrientation(jpegWithExif(orientationTiff(6)))).toBe(6);
+  });
+
+  it("reads little-endian EXIF", () => {
+    const tiff = [
+      0x49, 0x49, 0x2a, 0,
+      ...[8, 0, 0, 0],
+      ...[1, 0],
+      ...[0x12, 0x01, 3, 0, 1, 0, 0, 0, 3, 0, 0, 0],
+    ];
+    expect(readExifOrientation(jpegWithExif(tiff))).toBe(3);
+  });
+
+  it("returns 1 for bytes that are not a JPEG", () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(
+      1
+    );
+  });
+
+  it("returns 1 when the IFD offset points past the end", () => {
+    const bytes = jpegWithExif(orientationTiff(6, 0xff)).slice(0, 20);
+    expect(() => readExifOrientation(bytes)).not.toThrow();
+    expect(readExifOrientation(bytes)).toBe(1);
+  });
+
+  it("returns 1 when the TIFF header is cut short", () => {
+    expect(readExifOrientation(jpegWithExif([0x4d, 0x4d, 0]))).toBe(1);
+    expect(
+      readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, 8]))
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,281 @@
+// Browser preprocessing of photos before upload: EXIF orientation, downsizing
+// and re-encoding to JPEG, so large phone photos upload quickly instead of
+// being rejected
+import { APIError } from "./api-errors";
+import { loadImage } from "./image-utils";
+
+export interface ImagePreprocessOptions {
+  // Longest side of the processed image in pixels. Rekognition needs persons
+  // to be reasonably large in the frame, so keep this well above 1000.
+  maxDimension: number;
+  // JPEG quality between 0 and 1
+  quality: number;
+  // Optional decoder for formats the browser cannot decode itself, e.g. HEIC
+  // outside Safari. Should resolve to a blob the browser can display.
+  decodeHeic?: (file: File) => Promise<Blob>;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  originalSize: number;
+  processedSize: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  // EXIF orientation of the original (1 = upright)
+  orientation: number;
+  // False when the original could be uploaded untouched
+  changed: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_MAX_IMAGE_DIMENSION) || 2048,
+  quality: 0.9,
+};
+
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+// HEIC files often arrive without a MIME type, so check the extension too
+export function isHeicFile(file: File): boolean {
+  return (
+    HEIC_TYPES.includes(file.type.toLowerCase()) ||
+    /\.hei[cf]$/i.test(file.name)
+  );
+}
+
+// Read the EXIF orientation tag (0x0112) from JPEG bytes. Returns 1 when the
+// image has no orientation, is not a JPEG or its EXIF header is truncated or
+// corrupt, so the upload goes ahead as it is.
+export function readExifOrientation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no metadata after this point
+    if (marker === 0xffda) break;
+
+    // APP1 segment starting with "Exif\0\0"
+    if (
+      marker === 0xffe1 &&
+      offset + 8 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966
+    ) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// 2x1 JPEG with orientation 6. Browsers that honour EXIF orientation when
+// decoding report it as 1x2.
+const ORIENTATION_TEST_IMAGE =
+  "data:image/jpeg;base64,/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wCEAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAf/AABEIAAEAAgMBEQACEQEDEQH/xABKAAEAAAAAAAAAAAAAAAAAAAALEAEAAAAAAAAAAAAAAAAAAAAAAQEAAAAAAAAAAAAAAAAAAAAAEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwA/8H//2Q==";
+
+let browserOrientsImages: Promise<boolean> | null = null;
+
+// Whether decoded images already have EXIF orientation applied (all current
+// browsers; older ones need the canvas transform below)
+function browserAppliesOrientation(): Promise<boolean> {
+  if (!browserOrientsImages) {
+    browserOrientsImages = loadImage(ORIENTATION_TEST_IMAGE)
+      .then((img) => img.naturalWidth === 1 && img.naturalHeight === 2)
+      .catch(() => false);
+  }
+  return browserOrientsImages;
+}
+
+// Map the stored pixels to upright for the given EXIF orientation. `width`
+// and `height` are the drawn size before rotation.
+function applyOrientation(
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+): void {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+}
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode image")),
+      type,
+      quality
+    );
+  });
+}
+
+// Upright, downsized JPEG version of an uploaded photo. JPEGs that are
+// already upright and small enough are returned untouched.
+export async function preprocessImage(
+  file: File,
+  options: Partial<ImagePreprocessOptions> = {}
+): Promise<PreprocessedImage> {
+  const { maxDimension, quality, decodeHeic } = {
+    ...DEFAULT_PREPROCESS_OPTIONS,
+    ...options,
+  };
+
+  const isJpeg = file.type === "image/jpeg" || file.type === "image/jpg";
+  const orientation = isJpeg
+    ? readExifOrientation(new Uint8Array(await file.arrayBuffer()))
+    : 1;
+
+  const source = isHeicFile(file) && decodeHeic ? await decodeHeic(file) : file;
+  const src = URL.createObjectURL(source);
+
+  try {
+    let img: HTMLImageElement;
+    try {
+      img = await loadImage(src);
+    } catch {
+      throw new APIError(
+        isHeicFile(file)
+          ? "HEIC images cannot be decoded in this browser. Please convert the photo to JPEG."
+          : `Could not decode ${file.name}`,
+        undefined,
+        undefined,
+        "validation"
+      );
+    }
+
+    // Orientation still to apply on the canvas
+    const pending = (await browserAppliesOrientation()) ? 1 : orientation;
+    const swap = pending >= 5;
+    const uprightWidth = swap ? img.naturalHeight : img.naturalWidth;
+    const uprightHeight = swap ? img.naturalWidth : img.naturalHeight;
+    const scale = Math.min(
+      1,
+      maxDimension / Math.max(uprightWidth, uprightHeight)
+    );
+
+    const result = {
+      originalSize: file.size,
+      originalWidth: uprightWidth,
+      originalHeight: uprightHeight,
+      orientation,
+    };
+
+    if (isJpeg && orientation === 1 && scale === 1) {
+      return {
+        ...result,
+        file,
+        processedSize: file.size,
+        width: uprightWidth,
+        height: uprightHeight,
+        changed: false,
+      };
+    }
+
+    const drawWidth = Math.round(img.naturalWidth * scale);
+    const drawHeight = Math.round(img.naturalHeight * scale);
+    const canvas = document.createElement("canvas");
+    canvas.width = swap ? drawHeight : drawWidth;
+    canvas.height = swap ? drawWidth : drawHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Canvas 2D context is not available");
+    }
+
+    // Flatten transparency onto white before JPEG encoding
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = "high";
+    applyOrientation(ctx, pending, drawWidth, drawHeight);
+    ctx.drawImage(img, 0, 0, drawWidth, drawHeight);
+
+    const blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+
+    return {
+      ...result,
+      file: new File([blob], name, {
+        type: "image/jpeg",
+        lastModified: file.lastModified,
+      }),
+      processedSize: blob.size,
+      width: canvas.width,
+      height: canvas.height,
+      changed: true,
+    };
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+}
+
+// Current frame of a camera preview or video as a JPEG file, named after the
+// capture time unless a name is given. Preprocessing then downsizes it like
+// any other photo.
+export async function captureVideoFrame(
+  video: HTMLVideoElement,
+  fileName?: string
+): Promise<File> {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx || canvas.width === 0 || canvas.height === 0) {
+    throw new Error("The video frame is not ready");
+  }
+  ctx.drawImage(video, 0, 0);
+  const blob = await canvasToBlob(canvas, "image/jpeg", 0.92);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return new File([blob], fileName ?? `capture-${stamp}.jpg`, {
+    type: "image/jpeg",
+  });
+}
+
+// Human readable file size, e.g. "4.2 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
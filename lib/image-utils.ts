@@ -0,0 +1,120 @@
+// Browser image helpers shared by the detection providers and the UI
+import {
+  drawEquipmentBoxes,
+  getPersonCropRect,
+} from "./rekognition-mapping";
+import type { BoundingBox, ThresholdRules } from "./api";
+import type { RekognitionPerson } from "./providers/types";
+
+// Load an image element from a URL or data URL
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (error) => reject(error);
+    img.src = src;
+  });
+}
+
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// An image as a data URL, fetching it when it is a URL such as a crop served
+// by the backend
+export async function toDataURL(src: string): Promise<string> {
+  if (src.startsWith("data:")) return src;
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Could not fetch image: HTTP ${response.status}`);
+  }
+  return blobToDataURL(await response.blob());
+}
+
+// Raw bytes of an uploaded File or base64 data URL
+export async function readImageBytes(image: string | File): Promise<Uint8Array> {
+  if (typeof image !== "string") {
+    return new Uint8Array(await image.arrayBuffer());
+  }
+
+  const base64Data = image.split(",")[1] || image;
+  const byteCharacters = atob(base64Data);
+  const bytes = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    bytes[i] = byteCharacters.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Render the annotated crop for one person the same way the backend does:
+// equipment boxes drawn on the full image, then the person region cut out
+export function renderPersonCrop(
+  img: HTMLImageElement,
+  person: RekognitionPerson,
+  thresholds: ThresholdRules | number
+): string {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const fullCanvas = document.createElement("canvas");
+  fullCanvas.width = width;
+  fullCanvas.height = height;
+  const fullCtx = fullCanvas.getContext("2d");
+  if (!fullCtx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  fullCtx.drawImage(img, 0, 0);
+  drawEquipmentBoxes(fullCtx, person, width, height, thresholds);
+
+  const crop = getPersonCropRect(person, width, height);
+  const cropCanvas = document.createElement("canvas");
+  cropCanvas.width = crop.width;
+  cropCanvas.height = crop.height;
+  cropCanvas
+    .getContext("2d")
+    ?.drawImage(
+      fullCanvas,
+      crop.left,
+      crop.top,
+      crop.width,
+      crop.height,
+      0,
+      0,
+      crop.width,
+      crop.height
+    );
+
+  return cropCanvas.toDataURL("image/jpeg", 0.92);
+}
+
+// Cut a region given in image ratios out of the image, e.g. a person box
+// drawn by a reviewer
+export function cropImageRegion(img: HTMLImageElement, box: BoundingBox): string {
+  const left = Math.round(box.x * img.naturalWidth);
+  const top = Math.round(box.y * img.naturalHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(box.width * img.naturalWidth));
+  canvas.height = Math.max(1, Math.round(box.height * img.naturalHeight));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  ctx.drawImage(
+    img,
+    left,
+    top,
+    canvas.width,
+    canvas.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  return canvas.toDataURL("image/jpeg", 0.92);
+}
@@ -0,0 +1,293 @@
+// Past analyses kept in the browser's IndexedDB so they can be reopened and
+// reported on later. The original image and the person crops are stored as
+// blobs: the crop URLs the backend returns expire after 30 minutes.
+import type {
+  BoundingBox,
+  DetectionProviderName,
+  DetectionResult,
+  ThresholdRules,
+} from "./api";
+import { getImageVerdict, type ImageVerdict } from "./compliance";
+import type { RuleSet } from "./compliance-rules";
+import { blobToDataURL } from "./image-utils";
+import type { InspectionDetails } from "./inspection";
+import { applyOverrides, type StatusOverride } from "./overrides";
+import type { RequirementProfile } from "./requirement-profiles";
+import { applyThresholdRules } from "./thresholds";
+import { excludePersonsInZones, mergeZones, type Zone } from "./zones";
+
+// Everything needed to show the analysis again and regenerate its report
+export interface InspectionRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  fileName: string;
+  providerName: DetectionProviderName;
+  // Results as returned by the API; crops are kept in the image store, so
+  // `image` is empty here
+  results: DetectionResult[];
+  thresholds: ThresholdRules;
+  // Thresholds the detection ran with
+  detectionThresholds: ThresholdRules;
+  profile: RequirementProfile;
+  ruleSet: RuleSet | null;
+  // Zones drawn on the image; the rule set's own zones are merged in
+  zones: Zone[];
+  inspection: InspectionDetails;
+  // Reviewer overrides; missing on records saved before overrides existed
+  overrides?: StatusOverride[];
+  // Persons added by a reviewer, with their crops inline as data URLs;
+  // missing on older records
+  manualPersons?: DetectionResult[];
+  // Regions drawn to be redacted in exports, on top of the faces; missing on
+  // older records
+  redactionRegions?: BoundingBox[];
+}
+
+// Fields that can change after the analysis was saved
+export type InspectionUpdate = Partial<
+  Pick<
+    InspectionRecord,
+    | "thresholds"
+    | "profile"
+    | "ruleSet"
+    | "zones"
+    | "inspection"
+    | "overrides"
+    | "manualPersons"
+    | "redactionRegions"
+  >
+>;
+
+interface StoredImages {
+  id: string;
+  image: Blob;
+  // Crop of each person by person ID; missing when it could not be fetched
+  crops: Record<number, Blob>;
+}
+
+// A reopened analysis: images come back as data URLs, which both the page
+// and the PDF generator can use, and the original as a file to detect again
+export interface OpenedInspection extends InspectionRecord {
+  image: string;
+  file: File;
+}
+
+export interface InspectionFilter {
+  from?: Date;
+  to?: Date;
+  // Matched against the site and inspector names
+  query?: string;
+}
+
+const DB_NAME = "ppe-detection";
+const DB_VERSION = 1;
+const RECORD_STORE = "inspections";
+const IMAGE_STORE = "images";
+
+let recordCounter = 0;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const records = db.createObjectStore(RECORD_STORE, { keyPath: "id" });
+      records.createIndex("createdAt", "createdAt");
+      db.createObjectStore(IMAGE_STORE, { keyPath: "id" });
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      // Let the next call try again, e.g. after the user allows storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Whether the browser offers IndexedDB (not during server rendering, and not
+// in some private browsing modes)
+export function isHistoryAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+async function toBlob(src: string): Promise<Blob> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Could not fetch image: HTTP ${response.status}`);
+  }
+  return response.blob();
+}
+
+// Save a finished analysis and return its record. `image` is the uploaded
+// image as a data URL; the crops are fetched from the result image URLs now,
+// while they are still valid.
+export async function saveInspection(
+  analysis: Omit<InspectionRecord, "id" | "createdAt" | "updatedAt">,
+  image: string
+): Promise<InspectionRecord> {
+  const crops: Record<number, Blob> = {};
+  await Promise.all(
+    analysis.results.map(async (result) => {
+      if (!result.image) return;
+      try {
+        crops[result.personId] = await toBlob(result.image);
+      } catch (error) {
+        console.warn(`Could not store crop for person ${result.personId}:`, error);
+      }
+    })
+  );
+  const imageBlob = await toBlob(image);
+
+  const now = Date.now();
+  const record: InspectionRecord = {
+    ...analysis,
+    id: `inspection-${now}-${recordCounter++}`,
+    createdAt: now,
+    updatedAt: now,
+    results: analysis.results.map((result) => ({ ...result, image: "" })),
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORD_STORE, IMAGE_STORE], "readwrite");
+  transaction.objectStore(RECORD_STORE).put(record);
+  transaction
+    .objectStore(IMAGE_STORE)
+    .put({ id: record.id, image: imageBlob, crops } satisfies StoredImages);
+  await transactionDone(transaction);
+  return record;
+}
+
+// Store changes made after the analysis was saved, e.g. completed inspection
+// details or new thresholds
+export async function updateInspection(
+  id: string,
+  update: InspectionUpdate
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORD_STORE, "readwrite");
+  const store = transaction.objectStore(RECORD_STORE);
+  const record = await requestToPromise<InspectionRecord | undefined>(
+    store.get(id)
+  );
+  if (record) {
+    store.put({ ...record, ...update, updatedAt: Date.now() });
+  }
+  await transactionDone(transaction);
+}
+
+// Saved analyses, newest first
+export async function listInspections(
+  filter: InspectionFilter = {}
+): Promise<InspectionRecord[]> {
+  const { from, to, query = "" } = filter;
+  const range =
+    from && to
+      ? IDBKeyRange.bound(from.getTime(), to.getTime())
+      : from
+      ? IDBKeyRange.lowerBound(from.getTime())
+      : to
+      ? IDBKeyRange.upperBound(to.getTime())
+      : undefined;
+
+  const db = await openDatabase();
+  const records = await requestToPromise<InspectionRecord[]>(
+    db
+      .transaction(RECORD_STORE)
+      .objectStore(RECORD_STORE)
+      .index("createdAt")
+      .getAll(range)
+  );
+
+  const needle = query.trim().toLowerCase();
+  return records
+    .filter(
+      (record) =>
+        needle === "" ||
+        record.inspection.siteName.toLowerCase().includes(needle) ||
+        record.inspection.inspectorName.toLowerCase().includes(needle)
+    )
+    .reverse();
+}
+
+// A saved analysis with its images, or null when it no longer exists
+export async function openInspection(
+  id: string
+): Promise<OpenedInspection | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORD_STORE, IMAGE_STORE]);
+  const [record, images] = await Promise.all([
+    requestToPromise<InspectionRecord | undefined>(
+      transaction.objectStore(RECORD_STORE).get(id)
+    ),
+    requestToPromise<StoredImages | undefined>(
+      transaction.objectStore(IMAGE_STORE).get(id)
+    ),
+  ]);
+  if (!record || !images) return null;
+
+  const results = await Promise.all(
+    record.results.map(async (result) => {
+      const crop = images.crops[result.personId];
+      return { ...result, image: crop ? await blobToDataURL(crop) : "" };
+    })
+  );
+  return {
+    ...record,
+    results,
+    image: await blobToDataURL(images.image),
+    file: new File([images.image], record.fileName, { type: images.image.type }),
+  };
+}
+
+// Verdict of a saved analysis with the settings it was last saved with
+export function getInspectionVerdict(record: InspectionRecord): ImageVerdict {
+  const zones = mergeZones(record.zones, record.ruleSet?.zones);
+  const { results } = applyOverrides(
+    applyThresholdRules(
+      [...record.results, ...(record.manualPersons ?? [])],
+      record.thresholds
+    ),
+    record.overrides ?? []
+  );
+  const { kept } = excludePersonsInZones(results, zones);
+  return getImageVerdict(kept, {
+    profile: record.profile,
+    ruleSet: record.ruleSet,
+    zones,
+  });
+}
+
+export async function deleteInspection(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORD_STORE, IMAGE_STORE], "readwrite");
+  transaction.objectStore(RECORD_STORE).delete(id);
+  transaction.objectStore(IMAGE_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+// Remove every saved analysis, e.g. before handing the device over
+export async function clearInspections(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORD_STORE, IMAGE_STORE], "readwrite");
+  transaction.objectStore(RECORD_STORE).clear();
+  transaction.objectStore(IMAGE_STORE).clear();
+  await transactionDone(transaction);
+}
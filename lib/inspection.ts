@@ -0,0 +1,89 @@
+// Inspection details attached to every analysis so reports can be filed
+// against a site and job. The fields that rarely change between analyses are
+// remembered in localStorage as the defaults for the next one.
+import { z } from "zod";
+import { readStored, writeStored } from "./storage";
+
+export const InspectionDetailsSchema = z.object({
+  siteName: z.string().trim().min(1, "Site name is required").max(100),
+  jobNumber: z
+    .string()
+    .trim()
+    .min(1, "Project or job number is required")
+    .max(40)
+    .regex(/^[\w./ -]+$/, "Use letters, digits, spaces and - _ . / only"),
+  location: z.string().trim().max(200),
+  inspectorName: z.string().trim().min(1, "Inspector name is required").max(100),
+  conditions: z.string().trim().max(500, "Keep notes under 500 characters"),
+  observations: z
+    .string()
+    .trim()
+    .max(2000, "Keep observations under 2000 characters"),
+});
+
+export type InspectionDetails = z.infer<typeof InspectionDetailsSchema>;
+
+export const EMPTY_INSPECTION_DETAILS: InspectionDetails = {
+  siteName: "",
+  jobNumber: "",
+  location: "",
+  inspectorName: "",
+  conditions: "",
+  observations: "",
+};
+
+// Fields carried over to the next inspection
+const REMEMBERED_FIELDS = [
+  "siteName",
+  "jobNumber",
+  "location",
+  "inspectorName",
+] as const;
+
+// Remembered fields as stored; any field that is not a string is dropped
+const InspectionDefaultsSchema = z.object({
+  siteName: z.string().optional().catch(undefined),
+  jobNumber: z.string().optional().catch(undefined),
+  location: z.string().optional().catch(undefined),
+  inspectorName: z.string().optional().catch(undefined),
+});
+
+const STORAGE_KEY = "ppe-detection:inspection-defaults";
+
+export function loadInspectionDefaults(): InspectionDetails {
+  const stored = readStored(STORAGE_KEY, InspectionDefaultsSchema) || {};
+  const defaults = { ...EMPTY_INSPECTION_DETAILS };
+  REMEMBERED_FIELDS.forEach((field) => {
+    defaults[field] = stored[field] ?? defaults[field];
+  });
+  return defaults;
+}
+
+export function storeInspectionDefaults(details: InspectionDetails): void {
+  writeStored(
+    STORAGE_KEY,
+    Object.fromEntries(REMEMBERED_FIELDS.map((field) => [field, details[field]]))
+  );
+}
+
+// Labelled fields for reports and exports, skipping empty optional ones
+export function describeInspection(
+  details: InspectionDetails
+): { label: string; value: string }[] {
+  return [
+    { label: "Site", value: details.siteName },
+    { label: "Job No.", value: details.jobNumber },
+    { label: "Location", value: details.location },
+    { label: "Inspector", value: details.inspectorName },
+    { label: "Weather / Lighting", value: details.conditions },
+    { label: "Observations", value: details.observations },
+  ].filter((field) => field.value.trim() !== "");
+}
+
+// Validation messages for the details, empty when they are complete
+export function getInspectionErrors(details: InspectionDetails): string[] {
+  const parsed = InspectionDetailsSchema.safeParse(details);
+  return parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => issue.message);
+}
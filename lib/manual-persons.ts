@@ -0,0 +1,79 @@
+// Persons a reviewer added by drawing a box around someone the model missed,
+// e.g. a partly occluded worker. Their statuses are set by hand, so they are
+// marked with a "manual" source and left alone by the threshold rules.
+import type {
+  BoundingBox,
+  DetectionResult,
+  PPEItemResult,
+  PPEStatus,
+} from "./api";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import type { ZonePoint } from "./zones";
+
+export const MANUAL_STATUSES = [
+  "Detected",
+  "Not Detected",
+  "Indeterminate",
+  "Not Visible",
+] as const satisfies readonly PPEStatus[];
+
+export type ManualStatus = (typeof MANUAL_STATUSES)[number];
+
+// Boxes smaller than this (as a ratio of the image) are taken as a stray click
+export const MIN_BOX_SIZE = 0.02;
+
+export function isManualResult(result: DetectionResult): boolean {
+  return result.source === "manual";
+}
+
+// Box spanned by two corners, in image ratios and clamped to the image
+export function getBoxFromCorners(a: ZonePoint, b: ZonePoint): BoundingBox {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const x = clamp(Math.min(a.x, b.x));
+  const y = clamp(Math.min(a.y, b.y));
+  return {
+    x,
+    y,
+    width: clamp(Math.max(a.x, b.x)) - x,
+    height: clamp(Math.max(a.y, b.y)) - y,
+  };
+}
+
+export function isBoxLargeEnough(box: BoundingBox): boolean {
+  return box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE;
+}
+
+// Next free person id, after the model's persons and earlier manual ones
+export function getNextPersonId(results: DetectionResult[]): number {
+  return results.reduce((max, result) => Math.max(max, result.personId), 0) + 1;
+}
+
+// A person result with the reviewer's statuses. Confidence has no meaning
+// for a reviewer's call and is set to 100 throughout.
+export function createManualPerson({
+  personId,
+  boundingBox,
+  image,
+  statuses,
+}: {
+  personId: number;
+  boundingBox: BoundingBox;
+  // Crop of the box as a data URL
+  image: string;
+  statuses: Record<string, ManualStatus>;
+}): DetectionResult {
+  const ppe: DetectionResult["ppe"] = Object.fromEntries(
+    SUPPORTED_PPE_ITEMS.map((item): [string, PPEItemResult] => [
+      item.id,
+      { status: statuses[item.id] ?? "Not Visible", confidence: 100 },
+    ])
+  );
+  return {
+    personId,
+    confidence: 100,
+    image,
+    boundingBox,
+    ppe,
+    source: "manual",
+  };
+}
@@ -0,0 +1,105 @@
+// Reviewer overrides: a person's call on a PPE status the model got wrong,
+// e.g. a helmet under a hood or a beanie taken for a hard hat. Overrides are
+// applied after the thresholds so they hold whatever the threshold controls
+// are set to, and the model's own result is kept next to them.
+import { z } from "zod";
+import { getItemResult, type DetectionResult, type PPEItemResult } from "./api";
+
+export const OVERRIDE_STATUSES = [
+  "Detected",
+  "Not Detected",
+  "Indeterminate",
+] as const;
+
+export const StatusOverrideSchema = z.object({
+  personId: z.number().int().positive(),
+  itemId: z.string(),
+  status: z.enum(OVERRIDE_STATUSES),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Keep the reason under 500 characters"),
+  reviewer: z.string().trim().min(1, "Reviewer name is required").max(100),
+  // ISO timestamp of the review
+  reviewedAt: z.string(),
+});
+
+export type StatusOverride = z.infer<typeof StatusOverrideSchema>;
+export type OverrideStatus = StatusOverride["status"];
+
+// An override as it applies to the results on screen
+export interface AppliedOverride extends StatusOverride {
+  // The model's result for the item at the current thresholds
+  original: PPEItemResult;
+}
+
+// Results with the overrides in place, and the overrides that matched a
+// person and item. A reviewer's "Detected" means worn, so the model's
+// coverage finding is dropped.
+export function applyOverrides(
+  results: DetectionResult[],
+  overrides: StatusOverride[]
+): { results: DetectionResult[]; applied: AppliedOverride[] } {
+  if (overrides.length === 0) return { results, applied: [] };
+
+  const applied: AppliedOverride[] = [];
+  const overridden = results.map((result) => {
+    const forPerson = overrides.filter(
+      (override) => override.personId === result.personId
+    );
+    if (forPerson.length === 0) return result;
+
+    const ppe = { ...result.ppe };
+    forPerson.forEach((override) => {
+      const original = getItemResult(result, override.itemId);
+      ppe[override.itemId] = {
+        ...original,
+        status: override.status,
+        coversBodyPart: undefined,
+      };
+      applied.push({ ...override, original });
+    });
+    return { ...result, ppe };
+  });
+  return { results: overridden, applied };
+}
+
+export function findOverride<T extends StatusOverride>(
+  overrides: T[],
+  personId: number,
+  itemId: string
+): T | undefined {
+  return overrides.find(
+    (override) => override.personId === personId && override.itemId === itemId
+  );
+}
+
+// Add an override, replacing any earlier one for the same person and item
+export function setOverride(
+  overrides: StatusOverride[],
+  override: StatusOverride
+): StatusOverride[] {
+  return [
+    ...removeOverride(overrides, override.personId, override.itemId),
+    override,
+  ];
+}
+
+export function removeOverride(
+  overrides: StatusOverride[],
+  personId: number,
+  itemId: string
+): StatusOverride[] {
+  return overrides.filter(
+    (override) => override.personId !== personId || override.itemId !== itemId
+  );
+}
+
+// Validation messages for a new override, empty when it can be saved
+export function getOverrideErrors(override: StatusOverride): string[] {
+  const parsed = StatusOverrideSchema.safeParse(override);
+  return parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => issue.message);
+}
@@ -1,25 +1,141 @@
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
-import { DetectionResult } from "./api";
+import {
+  DetectionResult,
+  PPEItemResult,
+  ThresholdRules,
+  getItemResult,
+  isNotCovering,
+} from "./api";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import { isManualResult } from "./manual-persons";
+import { applyThresholdRules } from "./thresholds";
+import {
+  getImageVerdict,
+  getRuleFindings,
+  getRuleRequiredItems,
+  type ComplianceVerdict,
+  type ImageVerdict,
+} from "./compliance";
+import type { RuleSet } from "./compliance-rules";
+import {
+  applyOverrides,
+  type AppliedOverride,
+  type StatusOverride,
+} from "./overrides";
+import { describeInspection, type InspectionDetails } from "./inspection";
+import {
+  getRedactionRegions,
+  redactImage,
+  redactResultCrops,
+  type RedactionOptions,
+} from "./redaction";
+import {
+  excludePersonsInZones,
+  getZoneNamesByPerson,
+  type Zone,
+} from "./zones";
+import {
+  createThresholdRules,
+  getCustomisedItems,
+  getItemThreshold,
+  normalizeThresholdRules,
+} from "./threshold-rules";
+import {
+  DEFAULT_REQUIREMENT_PROFILE,
+  getRequirement,
+  type PPERequirement,
+  type RequirementProfile,
+} from "./requirement-profiles";
 
 interface PDFGenerationOptions {
+  // Results as returned by the API; statuses are evaluated with `thresholds`,
+  // or at `confidence` for every item when no thresholds are given
   results: DetectionResult[];
   originalImage?: string;
   confidence: number;
+  thresholds?: ThresholdRules;
+  // Site requirement profile the verdicts are judged against
+  profile?: RequirementProfile;
+  // Compliance rules applied on top of the profile
+  ruleSet?: RuleSet | null;
+  // Persons in exclusion zones are left out of the report
+  zones?: Zone[];
+  // Site, job and inspector, shown under REPORT DETAILS
+  inspection?: InspectionDetails;
+  // Reviewer overrides of the image's results, marked on each person card
+  overrides?: StatusOverride[];
+  // Video frames, each reported on its own page after the image. Without
+  // results the report covers the frames only.
+  frames?: ReportFrame[];
+  // Unique people across the frames, from person tracking
+  tracking?: TrackingSummary;
+  // Faces, and any drawn regions, obscured in the images and crops
+  redaction?: RedactionOptions;
   timestamp?: Date;
 }
 
+export interface TrackingSummary {
+  people: number;
+  violators: number;
+  // How per-person statuses were combined across frames
+  policy: string;
+}
+
+// A sampled video frame and its detection results
+export interface ReportFrame {
+  // Position in the video, e.g. "0:12"
+  label: string;
+  image: string;
+  results: DetectionResult[];
+}
+
 export async function generatePPEDetectionPDF(
   options: PDFGenerationOptions
 ): Promise<void> {
   const {
-    results,
     originalImage,
     confidence,
+    profile = DEFAULT_REQUIREMENT_PROFILE,
+    ruleSet = null,
+    zones = ruleSet?.zones ?? [],
+    inspection,
+    frames = [],
+    overrides = [],
+    tracking,
+    redaction = { mode: "none" },
     timestamp = new Date(),
   } = options;
+  // Evaluate here so the statuses always match the thresholds in the header
+  const thresholds = normalizeThresholdRules(
+    options.thresholds || createThresholdRules(confidence)
+  );
+  const { results: overridden, applied: appliedOverrides } = applyOverrides(
+    applyThresholdRules(options.results, thresholds),
+    overrides
+  );
+  const { kept: results, excluded } = excludePersonsInZones(overridden, zones);
+  // Every person is redacted, including those left out by exclusion zones
+  const redactionRegions = getRedactionRegions(
+    options.results,
+    redaction.regions
+  );
+  const zoneNames = getZoneNamesByPerson(results, zones);
+  const customisedItems = getCustomisedItems(thresholds);
+  const imageVerdict = getImageVerdict(results, { profile, ruleSet, zones });
+  const isFrameReport = frames.length > 0 && results.length === 0;
 
   const pdf = new jsPDF("p", "mm", "a4");
+  if (inspection) {
+    pdf.setProperties({
+      title: `PPE Detection Report - ${inspection.siteName}`,
+      subject: `Job ${inspection.jobNumber}`,
+      author: inspection.inspectorName,
+      keywords: [inspection.siteName, inspection.jobNumber, inspection.location]
+        .filter(Boolean)
+        .join(", "),
+    });
+  }
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 15;
@@ -44,10 +160,30 @@ export async function generatePPEDetectionPDF(
   // Reset text color for body
   pdf.setTextColor(0, 0, 0);
 
+  // Inspection fields, wrapped to the box width at 10pt
+  pdf.setFontSize(10);
+  const inspectionLines: string[] = inspection
+    ? describeInspection(inspection).flatMap(({ label, value }) =>
+        pdf.splitTextToSize(`${label}: ${value}`, pageWidth - 2 * margin - 20)
+      )
+    : [];
+
   // Add report metadata in a styled box
   pdf.setFillColor(248, 249, 250); // Light gray background
   pdf.setDrawColor(200, 200, 200);
-  pdf.rect(margin, currentY, pageWidth - 2 * margin, 25, "FD");
+  pdf.rect(
+    margin,
+    currentY,
+    pageWidth - 2 * margin,
+    25 +
+      inspectionLines.length * 5 +
+      (inspectionLines.length > 0 ? 2 : 0) +
+      (customisedItems.length +
+        (excluded.length > 0 ? 1 : 0) +
+        (tracking ? 1 : 0)) *
+        5,
+    "FD"
+  );
 
   currentY += 5;
   pdf.setFontSize(11);
@@ -56,95 +192,284 @@ export async function generatePPEDetectionPDF(
 
   pdf.setFont("helvetica", "normal");
   currentY += 8;
+  if (inspectionLines.length > 0) {
+    pdf.setFontSize(10);
+    inspectionLines.forEach((line) => {
+      pdf.text(line, margin + 10, currentY);
+      currentY += 5;
+    });
+    pdf.setFontSize(11);
+    currentY += 2;
+  }
   pdf.text(`Generated: ${timestamp.toLocaleString()}`, margin + 10, currentY);
+  pdf.text(`Site Profile: ${profile.name}`, pageWidth - margin - 10, currentY, {
+    align: "right",
+  });
   currentY += 6;
   
   // Align confidence and persons detected on opposite sides with consistent padding
   const leftPadding = margin + 10;
   const rightPadding = pageWidth - margin - 10;
-  pdf.text(`Confidence Threshold: ${confidence}%`, leftPadding, currentY);
-  pdf.text(`Persons Detected: ${results.length}`, rightPadding, currentY, { align: "right" });
+  // The thresholds the statuses below were evaluated with
+  pdf.text(
+    `Thresholds: detected from ${thresholds.default.detected}%, indeterminate from ${thresholds.default.indeterminate}%`,
+    leftPadding,
+    currentY
+  );
+  pdf.text(
+    isFrameReport
+      ? `Video Frames: ${frames.length}`
+      : `Persons Detected: ${results.length}`,
+    rightPadding,
+    currentY,
+    { align: "right" }
+  );
+
+  // Items with their own threshold bands
+  pdf.setFontSize(9);
+  customisedItems.forEach((item) => {
+    const threshold = getItemThreshold(thresholds, item.id);
+    currentY += 5;
+    pdf.text(
+      `${item.label}: detected from ${threshold.detected}%, indeterminate from ${threshold.indeterminate}%`,
+      leftPadding + 4,
+      currentY
+    );
+  });
+  if (excluded.length > 0) {
+    currentY += 5;
+    pdf.text(
+      `${excluded.length} person(s) in exclusion zones not assessed`,
+      leftPadding + 4,
+      currentY
+    );
+  }
+  if (tracking) {
+    currentY += 5;
+    pdf.text(
+      `Unique people: ${tracking.people}, unique violators: ${tracking.violators} (${tracking.policy.toLowerCase()} across frames)`,
+      leftPadding + 4,
+      currentY
+    );
+  }
+  pdf.setFontSize(11);
   currentY += 12;
 
-  // Add original image if available
-  if (originalImage) {
-    try {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
+  if (!isFrameReport) {
+    currentY = addComplianceSummary(pdf, imageVerdict, margin, currentY);
+    if (originalImage) {
+      currentY = await addSectionImage(
+        pdf,
+        await redactImage(originalImage, redactionRegions, redaction.mode),
+        "Original image",
+        margin,
+        currentY
+      );
+    }
+    currentY = await addPersonCards(
+      pdf,
+      await redactResultCrops(results, redactionRegions, redaction.mode),
+      imageVerdict,
+      zoneNames,
+      profile,
+      appliedOverrides,
+      "DETECTION RESULTS",
+      margin,
+      currentY
+    );
+  }
 
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = originalImage;
-      });
+  // Video frames, each on its own page
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const frameRegions = getRedactionRegions(frame.results);
+    const { kept: frameResults } = excludePersonsInZones(
+      applyThresholdRules(frame.results, thresholds),
+      zones
+    );
+    const frameVerdict = getImageVerdict(frameResults, {
+      profile,
+      ruleSet,
+      zones,
+    });
 
-      // Section title for original image
-      pdf.setFontSize(14);
-      pdf.setFont("helvetica", "bold");
-      pdf.setTextColor(52, 73, 94);
-      pdf.text("ORIGINAL IMAGE", margin, currentY);
-      currentY += 8;
+    if (!isFrameReport || i > 0) {
+      pdf.addPage();
+      currentY = margin;
+    }
+    pdf.setFontSize(16);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(52, 73, 94);
+    pdf.text(`VIDEO FRAME AT ${frame.label}`, margin, currentY);
+    currentY += 10;
+
+    currentY = addComplianceSummary(pdf, frameVerdict, margin, currentY);
+    currentY = await addSectionImage(
+      pdf,
+      await redactImage(frame.image, frameRegions, redaction.mode),
+      "Frame image",
+      margin,
+      currentY
+    );
+    currentY = await addPersonCards(
+      pdf,
+      await redactResultCrops(frameResults, frameRegions, redaction.mode),
+      frameVerdict,
+      getZoneNamesByPerson(frameResults, zones),
+      profile,
+      [],
+      `FRAME ${frame.label} RESULTS`,
+      margin,
+      currentY
+    );
+  }
 
-      // Calculate image dimensions to fit on page
-      const maxWidth = pageWidth - 2 * margin;
-      const maxHeight = 90; // Max height for the original image
-      const aspectRatio = img.width / img.height;
+  // Add footer
+  const totalPages = pdf.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(8);
+    pdf.setFont("helvetica", "normal");
+    pdf.setTextColor(128, 128, 128);
+    pdf.text(
+      `Page ${i} of ${totalPages} - Generated by Gulf Consulting PPE Detection System`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: "center" }
+    );
+  }
 
-      let imgWidth = maxWidth;
-      let imgHeight = imgWidth / aspectRatio;
+  // Generate filename with job number and timestamp
+  const jobPrefix = inspection?.jobNumber
+    ? `${inspection.jobNumber.replace(/[^\w-]+/g, "_")}_`
+    : "";
+  const filename = `PPE_Detection_Report_${jobPrefix}${
+    timestamp.toISOString().split("T")[0]
+  }_${timestamp.toTimeString().split(" ")[0].replace(/:/g, "-")}.pdf`;
 
-      if (imgHeight > maxHeight) {
-        imgHeight = maxHeight;
-        imgWidth = imgHeight * aspectRatio;
-      }
+  // Save the PDF
+  pdf.save(filename);
+}
 
-      // Center the image
-      const imgX = (pageWidth - imgWidth) / 2;
+// Image under a section title, scaled to the page width and at most 90mm
+// high. Returns the y position below it.
+async function addSectionImage(
+  pdf: jsPDF,
+  src: string,
+  label: string,
+  margin: number,
+  y: number
+): Promise<number> {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  let currentY = y;
 
-      // Add border around original image
-      pdf.setDrawColor(180, 180, 180);
-      pdf.setLineWidth(1);
-      pdf.rect(imgX - 2, currentY - 2, imgWidth + 4, imgHeight + 4, "S");
+  try {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
 
-      pdf.addImage(originalImage, "JPEG", imgX, currentY, imgWidth, imgHeight);
-      currentY += imgHeight + 12;
-    } catch (error) {
-      console.warn("Could not add original image to PDF:", error);
-      pdf.setTextColor(255, 0, 0);
-      pdf.text("Original image could not be included", margin, currentY);
-      pdf.setTextColor(0, 0, 0);
-      currentY += 15;
+    await new Promise((resolve, reject) => {
+      img.onload = resolve;
+      img.onerror = reject;
+      img.src = src;
+    });
+
+    // Section title
+    pdf.setFontSize(14);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(52, 73, 94);
+    pdf.text(label.toUpperCase(), margin, currentY);
+    currentY += 8;
+
+    // Calculate image dimensions to fit on page
+    const maxWidth = pageWidth - 2 * margin;
+    const maxHeight = 90; // Max height for the image
+    const aspectRatio = img.width / img.height;
+
+    let imgWidth = maxWidth;
+    let imgHeight = imgWidth / aspectRatio;
+
+    if (imgHeight > maxHeight) {
+      imgHeight = maxHeight;
+      imgWidth = imgHeight * aspectRatio;
     }
+
+    // Center the image
+    const imgX = (pageWidth - imgWidth) / 2;
+
+    // Add border around the image
+    pdf.setDrawColor(180, 180, 180);
+    pdf.setLineWidth(1);
+    pdf.rect(imgX - 2, currentY - 2, imgWidth + 4, imgHeight + 4, "S");
+
+    pdf.addImage(src, "JPEG", imgX, currentY, imgWidth, imgHeight);
+    currentY += imgHeight + 12;
+  } catch (error) {
+    console.warn(`Could not add ${label.toLowerCase()} to PDF:`, error);
+    pdf.setTextColor(255, 0, 0);
+    pdf.text(`${label} could not be included`, margin, currentY);
+    pdf.setTextColor(0, 0, 0);
+    currentY += 15;
   }
 
+  return currentY;
+}
+
+// One card per person with their crop and PPE table, under a section title
+// that is repeated on every new page. Returns the y position below the cards.
+async function addPersonCards(
+  pdf: jsPDF,
+  results: DetectionResult[],
+  imageVerdict: ImageVerdict,
+  zoneNames: Record<number, string[]>,
+  profile: RequirementProfile,
+  overrides: AppliedOverride[],
+  title: string,
+  margin: number,
+  y: number
+): Promise<number> {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let currentY = y;
+
   // Detection results section title
   pdf.setFontSize(16);
   pdf.setFont("helvetica", "bold");
   pdf.setTextColor(52, 73, 94);
-  pdf.text("DETECTION RESULTS", margin, currentY);
+  pdf.text(title, margin, currentY);
   currentY += 8;
 
   // Add detection results for each person
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
 
+    // Create a professional card for each person, tall enough for one row
+    // per supported registry item and the reviewer notes below the table
+    const cardWidth = pageWidth - 2 * margin;
+    const personOverrides = overrides.filter(
+      (override) => override.personId === result.personId
+    );
+    pdf.setFontSize(7);
+    const overrideLines: string[] = personOverrides.flatMap((override) =>
+      pdf.splitTextToSize(describeOverride(override), cardWidth - 16)
+    );
+    const tableCardHeight = Math.max(95, 25 + getPPETableHeight() + 8);
+    const cardHeight =
+      tableCardHeight +
+      (overrideLines.length > 0 ? overrideLines.length * 3.5 + 2 : 0);
+
     // More aggressive page break logic - only break if absolutely necessary
-    if (currentY > pageHeight - 100) {
+    if (currentY > pageHeight - cardHeight - 5) {
       pdf.addPage();
       currentY = margin;
       
-      // Add "DETECTION RESULTS (continued)" on new page
+      // Repeat the section title on the new page
       pdf.setFontSize(16);
       pdf.setFont("helvetica", "bold");
       pdf.setTextColor(52, 73, 94);
-      pdf.text("DETECTION RESULTS (continued)", margin, currentY);
+      pdf.text(`${title} (continued)`, margin, currentY);
       currentY += 8;
     }
 
-    // Create a professional card for each person
-    const cardHeight = 95;
-    const cardWidth = pageWidth - 2 * margin;
-
     // Card background with shadow effect
     pdf.setFillColor(255, 255, 255); // White background
     pdf.setDrawColor(220, 220, 220); // Light gray border
@@ -164,13 +489,25 @@ export async function generatePPEDetectionPDF(
     pdf.setFontSize(12);
     pdf.setFont("helvetica", "bold");
     pdf.setTextColor(255, 255, 255); // White text
+    const personZones = zoneNames[result.personId];
     pdf.text(
-      `Person ${result.personId} (Detection Confidence: ${result.confidence}%)`,
+      `Person ${result.personId} (${
+        isManualResult(result)
+          ? "Added manually"
+          : `Detection Confidence: ${result.confidence}%`
+      })${personZones.length > 0 ? ` - ${personZones.join(", ")}` : ""}`,
       margin + 8,
       currentY + 12
     );
+    pdf.text(
+      imageVerdict.persons[i].verdict.toUpperCase(),
+      margin + cardWidth - 8,
+      currentY + 12,
+      { align: "right" }
+    );
 
     let contentY = currentY + 25;
+    const ruleRequiredItems = getRuleRequiredItems(imageVerdict.persons[i]);
 
     // Add person image if available
     if (result.image) {
@@ -211,100 +548,15 @@ export async function generatePPEDetectionPDF(
         );
 
         // Create professional table next to the image
-        const tableX = margin + personImgWidth + 15;
-        const tableY = contentY;
-        const tableWidth = cardWidth - personImgWidth - 30;
-        const rowHeight = 12;
-
-        // Table header with dark background
-        pdf.setFillColor(52, 73, 94);
-        pdf.rect(tableX, tableY, tableWidth, rowHeight + 2, "F");
-
-        // Column widths
-        const col1Width = tableWidth * 0.45;
-        const col2Width = tableWidth * 0.3;
-        const col3Width = tableWidth * 0.25;
-
-        // Header text
-        pdf.setFontSize(9);
-        pdf.setFont("helvetica", "bold");
-        pdf.setTextColor(255, 255, 255);
-        pdf.text("PPE Item", tableX + 3, tableY + 8);
-        pdf.text("Status", tableX + col1Width + 3, tableY + 8);
-        pdf.text("Confidence", tableX + col1Width + col2Width + 3, tableY + 8);
-
-        // Vertical lines for columns
-        pdf.setDrawColor(200, 200, 200);
-        pdf.setLineWidth(0.3);
-        pdf.line(
-          tableX + col1Width,
-          tableY,
-          tableX + col1Width,
-          tableY + (rowHeight + 2) + rowHeight * 4
-        );
-        pdf.line(
-          tableX + col1Width + col2Width,
-          tableY,
-          tableX + col1Width + col2Width,
-          tableY + (rowHeight + 2) + rowHeight * 4
-        );
-
-        // Data rows
-        const ppeItems = [
-          { name: "Hard Hat", data: result.hardHat },
-          { name: "Face Mask", data: result.faceMask },
-          { name: "Hand Protection (L)", data: result.handProtectionL },
-          { name: "Hand Protection (R)", data: result.handProtectionR },
-        ];
-
-        let rowY = tableY + rowHeight + 2;
-        ppeItems.forEach((item, index) => {
-          // Alternating row colors
-          if (index % 2 === 0) {
-            pdf.setFillColor(248, 249, 250);
-          } else {
-            pdf.setFillColor(255, 255, 255);
-          }
-          pdf.rect(tableX, rowY, tableWidth, rowHeight, "F");
-
-          // Row border
-          pdf.setDrawColor(230, 230, 230);
-          pdf.setLineWidth(0.2);
-          pdf.rect(tableX, rowY, tableWidth, rowHeight, "S");
-
-          // Item name
-          pdf.setFontSize(8);
-          pdf.setFont("helvetica", "normal");
-          pdf.setTextColor(0, 0, 0);
-          pdf.text(item.name, tableX + 3, rowY + 8);
-
-          // Status with color coding
-          const statusColor = getStatusColor(item.data.status);
-          pdf.setTextColor(statusColor.r, statusColor.g, statusColor.b);
-          pdf.setFont("helvetica", "bold");
-          pdf.text(item.data.status, tableX + col1Width + 3, rowY + 8);
-
-          // Confidence percentage
-          pdf.setTextColor(0, 0, 0);
-          pdf.setFont("helvetica", "normal");
-          pdf.text(
-            `${item.data.confidence}%`,
-            tableX + col1Width + col2Width + 3,
-            rowY + 8
-          );
-
-          rowY += rowHeight;
-        });
-
-        // Table outer border
-        pdf.setDrawColor(180, 180, 180);
-        pdf.setLineWidth(0.5);
-        pdf.rect(
-          tableX,
-          tableY,
-          tableWidth,
-          rowHeight + 2 + rowHeight * 4,
-          "S"
+        addPPEResultsTable(
+          pdf,
+          result,
+          profile,
+          margin + personImgWidth + 15,
+          contentY,
+          cardWidth - personImgWidth - 30,
+          personOverrides,
+          ruleRequiredItems
         );
       } catch (error) {
         console.warn(
@@ -312,61 +564,175 @@ export async function generatePPEDetectionPDF(
           error
         );
         // Fallback to text-only results with improved formatting
-        addTextOnlyResultsImproved(
+        addPPEResultsTable(
           pdf,
           result,
+          profile,
           margin + 8,
           contentY,
-          cardWidth - 16
+          cardWidth - 16,
+          personOverrides,
+          ruleRequiredItems
         );
       }
     } else {
       // No image available, add text-only results with improved formatting
-      addTextOnlyResultsImproved(
+      addPPEResultsTable(
         pdf,
         result,
+        profile,
         margin + 8,
         contentY,
-        cardWidth - 16
+        cardWidth - 16,
+        personOverrides,
+        ruleRequiredItems
       );
     }
 
+    // Reviewer overrides, marked with * in the table
+    if (overrideLines.length > 0) {
+      pdf.setFontSize(7);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(111, 66, 193);
+      let noteY = currentY + tableCardHeight - 2;
+      overrideLines.forEach((line) => {
+        pdf.text(line, margin + 8, noteY);
+        noteY += 3.5;
+      });
+      pdf.setTextColor(0, 0, 0);
+    }
+
     currentY += cardHeight + 6;
   }
 
-  // Add footer
-  const totalPages = pdf.getNumberOfPages();
-  for (let i = 1; i <= totalPages; i++) {
-    pdf.setPage(i);
-    pdf.setFontSize(8);
+  return currentY;
+}
+
+// Image verdict and the verdict of each person with their missing items, at
+// the top of the report. Returns the y position below the section.
+function addComplianceSummary(
+  pdf: jsPDF,
+  imageVerdict: ImageVerdict,
+  margin: number,
+  y: number
+): number {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let currentY = y;
+
+  pdf.setFontSize(14);
+  pdf.setFont("helvetica", "bold");
+  pdf.setTextColor(52, 73, 94);
+  pdf.text("COMPLIANCE SUMMARY", margin, currentY);
+  currentY += 8;
+
+  // Overall verdict banner
+  const bannerColor = getVerdictColor(imageVerdict.verdict);
+  pdf.setFillColor(bannerColor.r, bannerColor.g, bannerColor.b);
+  pdf.rect(margin, currentY, pageWidth - 2 * margin, 12, "F");
+  pdf.setFontSize(12);
+  pdf.setTextColor(255, 255, 255);
+  pdf.text(imageVerdict.verdict.toUpperCase(), margin + 5, currentY + 8);
+  pdf.text(
+    `${imageVerdict.compliant} of ${imageVerdict.total} persons compliant`,
+    pageWidth - margin - 5,
+    currentY + 8,
+    { align: "right" }
+  );
+  currentY += 18;
+
+  pdf.setFontSize(10);
+  imageVerdict.persons.forEach((person) => {
+    if (currentY > pageHeight - 20) {
+      pdf.addPage();
+      currentY = margin;
+    }
+
+    const color = getVerdictColor(person.verdict);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(color.r, color.g, color.b);
+    pdf.text(
+      `Person ${person.personId}${person.isManual ? " (added manually)" : ""}: ${
+        person.verdict
+      }`,
+      margin,
+      currentY
+    );
+
+    const details = [
+      person.missingItems.length > 0 &&
+        `Missing: ${person.missingItems.map((item) => item.label).join(", ")}`,
+      person.reviewItems.length > 0 &&
+        `To review: ${person.reviewItems
+          .map((item) => item.label)
+          .join(", ")}`,
+    ].filter(Boolean);
     pdf.setFont("helvetica", "normal");
-    pdf.setTextColor(128, 128, 128);
+    pdf.setTextColor(0, 0, 0);
     pdf.text(
-      `Page ${i} of ${totalPages} - Generated by Gulf Consulting PPE Detection System`,
-      pageWidth / 2,
-      pageHeight - 10,
-      { align: "center" }
+      details.join(" | ") || "All required items detected",
+      margin + 50,
+      currentY,
+      { maxWidth: pageWidth - 2 * margin - 50 }
     );
+    currentY += 6;
+
+    // Compliance rules the person broke or that need a review
+    pdf.setFontSize(8);
+    getRuleFindings(person).forEach((finding) => {
+      const lines: string[] = pdf.splitTextToSize(
+        `${finding.outcome === "violated" ? "Rule broken" : "To review"}: ${
+          finding.explanation
+        }`,
+        pageWidth - 2 * margin - 50
+      );
+      pdf.text(lines, margin + 50, currentY - 1);
+      currentY += lines.length * 4;
+    });
+    pdf.setFontSize(10);
+  });
+
+  pdf.setFontSize(11);
+  return currentY + 8;
+}
+
+function getVerdictColor(verdict: ComplianceVerdict): {
+  r: number;
+  g: number;
+  b: number;
+} {
+  switch (verdict) {
+    case "Compliant":
+      return { r: 39, g: 174, b: 96 }; // Green
+    case "Non-compliant":
+      return { r: 192, g: 57, b: 43 }; // Red
+    default:
+      return { r: 230, g: 126, b: 34 }; // Orange
   }
+}
 
-  // Generate filename with timestamp
-  const filename = `PPE_Detection_Report_${
-    timestamp.toISOString().split("T")[0]
-  }_${timestamp.toTimeString().split(" ")[0].replace(/:/g, "-")}.pdf`;
+const PPE_TABLE_ROW_HEIGHT = 12;
 
-  // Save the PDF
-  pdf.save(filename);
+// Height of the PPE results table: header plus one row per supported item
+function getPPETableHeight(): number {
+  return PPE_TABLE_ROW_HEIGHT + 2 + PPE_TABLE_ROW_HEIGHT * SUPPORTED_PPE_ITEMS.length;
 }
 
-function addTextOnlyResultsImproved(
+// PPE results table with one row per supported item of the PPE registry
+function addPPEResultsTable(
   pdf: jsPDF,
   result: DetectionResult,
+  profile: RequirementProfile,
   x: number,
   y: number,
-  width: number
+  width: number,
+  overrides: AppliedOverride[] = [],
+  // Items compliance rules require of the person, coloured as required
+  ruleRequiredItems: string[] = []
 ): void {
-  const rowHeight = 12;
+  const rowHeight = PPE_TABLE_ROW_HEIGHT;
   const tableWidth = width;
+  const tableHeight = getPPETableHeight();
 
   // Table header
   pdf.setFillColor(52, 73, 94);
@@ -375,7 +741,6 @@ function addTextOnlyResultsImproved(
   // Column widths
   const col1Width = tableWidth * 0.45;
   const col2Width = tableWidth * 0.3;
-  const col3Width = tableWidth * 0.25;
 
   // Header text
   pdf.setFontSize(9);
@@ -388,29 +753,23 @@ function addTextOnlyResultsImproved(
   // Vertical lines for columns
   pdf.setDrawColor(200, 200, 200);
   pdf.setLineWidth(0.3);
-  pdf.line(
-    x + col1Width,
-    y,
-    x + col1Width,
-    y + (rowHeight + 2) + rowHeight * 4
-  );
+  pdf.line(x + col1Width, y, x + col1Width, y + tableHeight);
   pdf.line(
     x + col1Width + col2Width,
     y,
     x + col1Width + col2Width,
-    y + (rowHeight + 2) + rowHeight * 4
+    y + tableHeight
   );
 
   // Data rows
-  const ppeItems = [
-    { name: "Hard Hat", data: result.hardHat },
-    { name: "Face Mask", data: result.faceMask },
-    { name: "Hand Protection (L)", data: result.handProtectionL },
-    { name: "Hand Protection (R)", data: result.handProtectionR },
-  ];
-
   let rowY = y + rowHeight + 2;
-  ppeItems.forEach((item, index) => {
+  SUPPORTED_PPE_ITEMS.forEach((item, index) => {
+    const data = getItemResult(result, item.id);
+    const requirement = getRequirement(profile, item.id);
+    const isOverridden = overrides.some(
+      (override) => override.itemId === item.id
+    );
+
     // Alternating row colors
     if (index % 2 === 0) {
       pdf.setFillColor(248, 249, 250);
@@ -424,23 +783,41 @@ function addTextOnlyResultsImproved(
     pdf.setLineWidth(0.2);
     pdf.rect(x, rowY, tableWidth, rowHeight, "S");
 
-    // Item name
+    // Item colour marker and name
+    const itemColor = hexToRgb(item.color);
+    pdf.setFillColor(itemColor.r, itemColor.g, itemColor.b);
+    pdf.rect(x + 3, rowY + 5, 2.5, 2.5, "F");
     pdf.setFontSize(8);
     pdf.setFont("helvetica", "normal");
     pdf.setTextColor(0, 0, 0);
-    pdf.text(item.name, x + 3, rowY + 8);
+    pdf.text(
+      requirement === "required"
+        ? item.label
+        : `${item.label} (${requirement === "optional" ? "optional" : "n/a"})`,
+      x + 7,
+      rowY + 8
+    );
 
     // Status with color coding
-    const statusColor = getStatusColor(item.data.status);
+    const statusColor = getStatusColor(
+      data.status,
+      ruleRequiredItems.includes(item.id) ? "required" : requirement
+    );
     pdf.setTextColor(statusColor.r, statusColor.g, statusColor.b);
     pdf.setFont("helvetica", "bold");
-    pdf.text(item.data.status, x + col1Width + 3, rowY + 8);
+    addStatusText(pdf, data, x + col1Width + 3, rowY);
 
     // Confidence percentage
     pdf.setTextColor(0, 0, 0);
     pdf.setFont("helvetica", "normal");
     pdf.text(
-      `${item.data.confidence}%`,
+      isOverridden
+        ? "Reviewer *"
+        : isManualResult(result)
+        ? "Manual"
+        : data.status === "Not Visible"
+        ? "-"
+        : `${data.confidence}%`,
       x + col1Width + col2Width + 3,
       rowY + 8
     );
@@ -451,10 +828,63 @@ function addTextOnlyResultsImproved(
   // Table outer border
   pdf.setDrawColor(180, 180, 180);
   pdf.setLineWidth(0.5);
-  pdf.rect(x, y, tableWidth, rowHeight + 2 + rowHeight * 4, "S");
+  pdf.rect(x, y, tableWidth, tableHeight, "S");
+}
+
+// "* Hard Hat set to Detected by A. Reviewer on ...: reason (model: ...)"
+function describeOverride(override: AppliedOverride): string {
+  const item = SUPPORTED_PPE_ITEMS.find(({ id }) => id === override.itemId);
+  const { original } = override;
+  return `* ${item?.label ?? override.itemId} set to ${override.status} by ${
+    override.reviewer
+  } on ${new Date(override.reviewedAt).toLocaleString()}: ${
+    override.reason
+  } (model: ${original.status}${
+    original.status === "Not Visible" ? "" : ` ${original.confidence}%`
+  })`;
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
 }
 
-function getStatusColor(status: string): { r: number; g: number; b: number } {
+// Status cell text, with a note when the equipment is not covering the body part
+function addStatusText(
+  pdf: jsPDF,
+  item: PPEItemResult,
+  x: number,
+  rowY: number
+): void {
+  if (!isNotCovering(item)) {
+    pdf.text(item.status, x, rowY + 8);
+    return;
+  }
+
+  pdf.text(item.status, x, rowY + 6);
+  pdf.setFontSize(6);
+  pdf.setFont("helvetica", "normal");
+  pdf.setTextColor(255, 140, 0);
+  pdf.text(
+    `not covering (${item.coversBodyPart?.confidence}%)`,
+    x,
+    rowY + 10
+  );
+  pdf.setFontSize(8);
+}
+
+// Missing or undecided items are only highlighted when the profile or a
+// compliance rule requires them
+function getStatusColor(
+  status: string,
+  requirement: PPERequirement
+): { r: number; g: number; b: number } {
+  if (
+    requirement !== "required" &&
+    (status === "Not Detected" || status === "Indeterminate")
+  ) {
+    return { r: 128, g: 128, b: 128 }; // Gray
+  }
   switch (status) {
     case "Detected":
       return { r: 0, g: 128, b: 0 }; // Green
@@ -462,6 +892,9 @@ function getStatusColor(status: string): { r: number; g: number; b: number } {
       return { r: 255, g: 0, b: 0 }; // Red
     case "Indeterminate":
       return { r: 255, g: 165, b: 0 }; // Orange
+    case "Not Visible":
+    case "Not Supported":
+      return { r: 128, g: 128, b: 128 }; // Gray
     default:
       return { r: 0, g: 0, b: 0 }; // Black
   }
@@ -0,0 +1,106 @@
+// Registry of the PPE items the system reports on.
+//
+// Everything that lists PPE items (the detection contract, the Rekognition
+// mapping, the result cards, the threshold logic and the PDF tables) iterates
+// over this list, so adding an item only takes a new entry here. Plain
+// CommonJS so the Express backend can load it too.
+
+/**
+ * @typedef {"HEAD" | "FACE" | "LEFT_HAND" | "RIGHT_HAND" | "TORSO" | "FEET" | "EYES"} PPEBodyPart
+ * @typedef {"HEAD_COVER" | "FACE_COVER" | "HAND_COVER"} RekognitionEquipmentType
+ *
+ * @typedef {object} PPEItemDefinition
+ * @property {string} id Key of the item in DetectionResult.ppe
+ * @property {string} label Display label used in the UI and reports
+ * @property {PPEBodyPart} bodyPart Body part the equipment protects
+ * @property {string} bodyPartLabel Lower-case body part name for sentences
+ * @property {RekognitionEquipmentType} [equipmentType] Rekognition equipment type, when supported
+ * @property {boolean} supported Whether the detection backend can report this item
+ * @property {string} icon lucide-react icon name
+ * @property {string} color Hex colour used for icons and equipment boxes
+ */
+
+/** @type {PPEItemDefinition[]} */
+const PPE_ITEMS = [
+  {
+    id: "hardHat",
+    label: "Hard Hat",
+    bodyPart: "HEAD",
+    bodyPartLabel: "head",
+    equipmentType: "HEAD_COVER",
+    supported: true,
+    icon: "HardHat",
+    color: "#f59e0b",
+  },
+  {
+    id: "faceMask",
+    label: "Face Mask",
+    bodyPart: "FACE",
+    bodyPartLabel: "face",
+    equipmentType: "FACE_COVER",
+    supported: true,
+    icon: "ScanFace",
+    color: "#0ea5e9",
+  },
+  {
+    id: "handProtectionL",
+    label: "Hand Protection (L)",
+    bodyPart: "LEFT_HAND",
+    bodyPartLabel: "left hand",
+    equipmentType: "HAND_COVER",
+    supported: true,
+    icon: "Hand",
+    color: "#8b5cf6",
+  },
+  {
+    id: "handProtectionR",
+    label: "Hand Protection (R)",
+    bodyPart: "RIGHT_HAND",
+    bodyPartLabel: "right hand",
+    equipmentType: "HAND_COVER",
+    supported: true,
+    icon: "Hand",
+    color: "#d946ef",
+  },
+  // Note: AWS Rekognition does not detect safety vests, boots, or other specialized PPE
+  // For these items, consider using Amazon Rekognition Custom Labels
+  {
+    id: "safetyVest",
+    label: "Safety Vest",
+    bodyPart: "TORSO",
+    bodyPartLabel: "torso",
+    supported: false,
+    icon: "Shirt",
+    color: "#84cc16",
+  },
+  {
+    id: "boots",
+    label: "Boots",
+    bodyPart: "FEET",
+    bodyPartLabel: "feet",
+    supported: false,
+    icon: "Footprints",
+    color: "#78716c",
+  },
+];
+
+const SUPPORTED_PPE_ITEMS = PPE_ITEMS.filter((item) => item.supported);
+
+// Look up an item definition by id
+function getPPEItem(id) {
+  return PPE_ITEMS.find((item) => item.id === id);
+}
+
+// Rekognition equipment types needed for the supported items
+function getRequiredEquipmentTypes() {
+  return Array.from(
+    new Set(SUPPORTED_PPE_ITEMS.map((item) => item.equipmentType))
+  );
+}
+
+module.exports = {
+  PPE_ITEMS,
+  SUPPORTED_PPE_ITEMS,
+  getPPEItem,
+  getRequiredEquipmentTypes,
+};
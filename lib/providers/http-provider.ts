@@ -0,0 +1,249 @@
+// Detection provider backed by the Express/Rekognition backend
+import type { z } from "zod";
+import {
+  APIError,
+  getRetryDelay,
+  isRetryableError,
+  parseContract,
+  sleep,
+  throwIfCancelled,
+} from "../api-errors";
+import {
+  APIConfigSchema,
+  HealthResponseSchema,
+  PPEDetectionResponseSchema,
+} from "../detection-contract";
+import type { ThresholdRules } from "../api";
+import { normalizeThresholdRules } from "../threshold-rules";
+import type { DetectionProvider, RequestOptions } from "./types";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_BASE_URL || "https://detection.gulfconsulting.com.au/api";
+
+// Timeout and retry behaviour of the HTTP client
+export interface RequestPolicy {
+  timeoutMs: number;
+  // Additional attempts for retryable failures (network, timeout, 5xx, 429)
+  retries: number;
+  // Delay before the first retry, doubled for every further attempt
+  retryDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || 30000,
+  retries: 2,
+  retryDelayMs: 500,
+};
+
+interface ApiRequestOptions extends RequestInit {
+  timeoutMs?: number;
+  // Whether the request may be sent again after a retryable failure
+  idempotent?: boolean;
+}
+
+// Single fetch with a timeout, classifying every failure as an APIError
+async function fetchOnce<T>(
+  url: string,
+  endpoint: string,
+  config: RequestInit,
+  timeoutMs: number,
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> {
+  const callerSignal = config.signal;
+  throwIfCancelled(callerSignal);
+
+  // One controller aborts the fetch on timeout or when the caller cancels
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...config, signal: controller.signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const retryAfter = response.headers.get("Retry-After");
+      throw new APIError(
+        errorData.message ||
+          errorData.error ||
+          `HTTP error! status: ${response.status}`,
+        response.status,
+        retryAfter ? { ...errorData, retryAfter } : errorData
+      );
+    }
+
+    const body = await response.json().catch(() => {
+      throw new APIError(
+        `Invalid JSON in response from ${endpoint}`,
+        response.status,
+        undefined,
+        "provider-failure"
+      );
+    });
+    if (!schema) {
+      return body;
+    }
+
+    // Validate the payload against the shared contract
+    return parseContract(endpoint, schema, body);
+  } catch (error) {
+    if (error instanceof APIError) {
+      throw error;
+    }
+    throwIfCancelled(callerSignal);
+    if (timedOut) {
+      throw new APIError(
+        `Request to ${endpoint} timed out after ${timeoutMs / 1000}s`,
+        undefined,
+        undefined,
+        "timeout"
+      );
+    }
+
+    // Network or other errors
+    throw new APIError(
+      `Network error: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      undefined,
+      undefined,
+      "network"
+    );
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+  }
+}
+
+// Generic API request function. Idempotent requests are retried with
+// exponential backoff on network errors, timeouts, 5xx and 429 responses.
+async function apiRequest<T>(
+  baseUrl: string,
+  endpoint: string,
+  options: ApiRequestOptions = {},
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>,
+  policy: RequestPolicy = DEFAULT_REQUEST_POLICY
+): Promise<T> {
+  const url = `${baseUrl}${endpoint}`;
+  const { timeoutMs = policy.timeoutMs, idempotent, ...init } = options;
+  const method = (init.method || "GET").toUpperCase();
+  const retries =
+    (idempotent ?? (method === "GET" || method === "HEAD")) ? policy.retries : 0;
+
+  const defaultOptions: RequestInit = {
+    headers: {
+      "Content-Type": "application/json",
+    },
+  };
+
+  const config = { ...defaultOptions, ...init };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, endpoint, config, timeoutMs, schema);
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+      await sleep(
+        getRetryDelay(error, attempt, policy.retryDelayMs),
+        init.signal
+      );
+    }
+  }
+}
+
+// Convert File or base64 string to FormData for image upload
+function createFormData(
+  image: string | File,
+  confidenceThreshold: number,
+  thresholds?: ThresholdRules
+): FormData {
+  const formData = new FormData();
+
+  if (typeof image === "string") {
+    // Convert base64 to blob
+    const base64Data = image.split(",")[1] || image;
+    const byteCharacters = atob(base64Data);
+    const byteNumbers = new Array(byteCharacters.length);
+
+    for (let i = 0; i < byteCharacters.length; i++) {
+      byteNumbers[i] = byteCharacters.charCodeAt(i);
+    }
+
+    const byteArray = new Uint8Array(byteNumbers);
+    const blob = new Blob([byteArray], { type: "image/jpeg" });
+    formData.append("image", blob, "uploaded_image.jpg");
+  } else {
+    formData.append("image", image);
+  }
+
+  formData.append("confidence_threshold", confidenceThreshold.toString());
+  if (thresholds) {
+    formData.append(
+      "thresholds",
+      JSON.stringify(normalizeThresholdRules(thresholds))
+    );
+  }
+  return formData;
+}
+
+export function createHttpProvider(
+  baseUrl: string = API_BASE_URL,
+  policy: RequestPolicy = DEFAULT_REQUEST_POLICY
+): DetectionProvider {
+  const request = <T>(
+    endpoint: string,
+    init: ApiRequestOptions,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: RequestOptions = {}
+  ) =>
+    apiRequest(
+      baseUrl,
+      endpoint,
+      { ...init, signal: options.signal, timeoutMs: options.timeoutMs },
+      schema,
+      policy
+    );
+
+  return {
+    name: "http",
+    label: `Detection API (${baseUrl})`,
+    uploadsImages: true,
+
+    async detect(image, confidenceThreshold, options) {
+      const formData = createFormData(
+        image,
+        confidenceThreshold,
+        options?.thresholds
+      );
+
+      return request(
+        "/detect",
+        {
+          method: "POST",
+          headers: {}, // Remove Content-Type to let browser set it for FormData
+          body: formData,
+          // Each call is billed and stores the upload on the backend, so it is
+          // only resent when the caller opts in
+          idempotent: options?.retry ?? false,
+        },
+        PPEDetectionResponseSchema,
+        options
+      );
+    },
+
+    async healthCheck(options) {
+      return request("/health", {}, HealthResponseSchema, options);
+    },
+
+    async getConfig(options) {
+      return request("/config", {}, APIConfigSchema, options);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// Detection provider registry
+import { createHttpProvider } from "./http-provider";
+import { createMockProvider } from "./mock-provider";
+import { createReplayProvider } from "./replay-provider";
+import type { DetectionProvider, DetectionProviderName } from "./types";
+
+export const DETECTION_PROVIDERS: Record<
+  DetectionProviderName,
+  () => DetectionProvider
+> = {
+  http: () => createHttpProvider(),
+  mock: createMockProvider,
+  replay: () => createReplayProvider(),
+};
+
+export function createDetectionProvider(
+  name: DetectionProviderName
+): DetectionProvider {
+  const factory = DETECTION_PROVIDERS[name];
+  if (!factory) {
+    console.warn(`Unknown detection provider "${name}", using http`);
+    return createHttpProvider();
+  }
+  return factory();
+}
@@ -0,0 +1,163 @@
+// In-process detection provider returning deterministic results, so the app
+// can be demonstrated and developed without network access or AWS
+import {
+  MOCK_SCENES,
+  type MockBodyPart,
+  type MockPersonSpec,
+} from "../fixtures/mock-scenes";
+import { throwIfCancelled } from "../api-errors";
+import { readImageBytes } from "../image-utils";
+import { fingerprintImageBytes } from "../rekognition-mapping";
+import { buildOfflineResponse, OFFLINE_API_CONFIG } from "./offline";
+import type {
+  DetectionProvider,
+  RekognitionBodyPart,
+  RekognitionBoundingBox,
+  RekognitionPerson,
+} from "./types";
+
+// Where each body part sits inside the person box (relative coordinates)
+const BODY_PART_REGIONS: Record<
+  RekognitionBodyPart["Name"],
+  [left: number, top: number, width: number, height: number]
+> = {
+  HEAD: [0.3, 0.0, 0.4, 0.16],
+  FACE: [0.35, 0.12, 0.3, 0.12],
+  LEFT_HAND: [0.7, 0.5, 0.25, 0.14],
+  RIGHT_HAND: [0.05, 0.5, 0.25, 0.14],
+};
+
+const EQUIPMENT_TYPES = {
+  HEAD: "HEAD_COVER",
+  FACE: "FACE_COVER",
+  LEFT_HAND: "HAND_COVER",
+  RIGHT_HAND: "HAND_COVER",
+} as const;
+
+function regionWithin(
+  box: MockPersonSpec["box"],
+  part: RekognitionBodyPart["Name"]
+): RekognitionBoundingBox {
+  const [left, top, width, height] = box;
+  const [rl, rt, rw, rh] = BODY_PART_REGIONS[part];
+  return {
+    Left: left + rl * width,
+    Top: top + rt * height,
+    Width: rw * width,
+    Height: rh * height,
+  };
+}
+
+// Build a Rekognition-shaped person from a compact scene description
+function toRekognitionPerson(spec: MockPersonSpec, id: number): RekognitionPerson {
+  const parts: [RekognitionBodyPart["Name"], MockBodyPart][] = [
+    ["FACE", "face"],
+    ["LEFT_HAND", "leftHand"],
+    ["RIGHT_HAND", "rightHand"],
+    ["HEAD", "head"],
+  ];
+
+  return {
+    Id: id,
+    Confidence: spec.confidence,
+    BoundingBox: {
+      Left: spec.box[0],
+      Top: spec.box[1],
+      Width: spec.box[2],
+      Height: spec.box[3],
+    },
+    BodyParts: parts
+      .filter(([, key]) => spec[key] !== undefined)
+      .map(([name, key]) => {
+        const confidence = spec[key];
+        const covers = !spec.uncovered?.includes(key);
+        return {
+          Name: name,
+          Confidence: 95,
+          EquipmentDetections: confidence
+            ? [
+                {
+                  BoundingBox: regionWithin(spec.box, name),
+                  Confidence: confidence,
+                  Type: EQUIPMENT_TYPES[name],
+                  CoversBodyPart: {
+                    Confidence: covers ? confidence : 100 - confidence,
+                    Value: covers,
+                  },
+                },
+              ]
+            : [],
+        };
+      }),
+  };
+}
+
+// Small seeded PRNG (mulberry32) so unknown images still give stable results
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate a plausible scene for an image that is not one of the fixtures
+function generateScene(fingerprint: string): MockPersonSpec[] {
+  const random = seededRandom(parseInt(fingerprint, 16));
+  const count = 1 + Math.floor(random() * 3);
+  const width = 0.8 / count;
+  const equipment = () => {
+    const roll = random();
+    if (roll < 0.15) return undefined;
+    if (roll < 0.4) return 0;
+    return Math.round((55 + random() * 45) * 10) / 10;
+  };
+
+  return Array.from({ length: count }, (_, idx) => ({
+    box: [0.1 + idx * width, 0.1 + random() * 0.1, width * 0.9, 0.75],
+    confidence: Math.round((90 + random() * 10) * 10) / 10,
+    head: equipment(),
+    face: equipment(),
+    leftHand: equipment(),
+    rightHand: equipment(),
+  }));
+}
+
+export function createMockProvider(): DetectionProvider {
+  return {
+    name: "mock",
+    label: "Offline mock detection",
+    uploadsImages: false,
+
+    async detect(image, confidenceThreshold, options) {
+      throwIfCancelled(options?.signal);
+      const fingerprint = fingerprintImageBytes(await readImageBytes(image));
+      const fileName = typeof image === "string" ? undefined : image.name;
+      const scene = MOCK_SCENES.find(
+        (candidate) =>
+          candidate.fingerprint === fingerprint || candidate.file === fileName
+      );
+      const persons = scene ? scene.persons : generateScene(fingerprint);
+
+      return buildOfflineResponse(
+        image,
+        { Persons: persons.map(toRekognitionPerson) },
+        confidenceThreshold,
+        scene
+          ? `Mock detection for fixture ${scene.file}`
+          : "Mock detection generated from image fingerprint",
+        options
+      );
+    },
+
+    async healthCheck() {
+      return { status: "ok", message: "Mock detection provider is active" };
+    },
+
+    async getConfig() {
+      return OFFLINE_API_CONFIG;
+    },
+  };
+}
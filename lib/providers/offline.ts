@@ -0,0 +1,67 @@
+// Helpers shared by the providers that run without the detection backend
+import type { DetectionResult, PPEDetectionResponse } from "../api";
+import { DEFAULT_API_CONFIG } from "../api-config";
+import { parseContract, throwIfCancelled } from "../api-errors";
+import { PPEDetectionResponseSchema } from "../detection-contract";
+import { loadImage, renderPersonCrop } from "../image-utils";
+import { mapPersonToResult } from "../rekognition-mapping";
+import type { DetectOptions, RekognitionPPEResponse } from "./types";
+
+// Mirrors the capabilities reported by the backend's /api/config
+export const OFFLINE_API_CONFIG = DEFAULT_API_CONFIG;
+
+// Turn a Rekognition response into the same payload /api/detect would return,
+// rendering the annotated person crops in the browser
+export async function buildOfflineResponse(
+  image: string | File,
+  rekognition: RekognitionPPEResponse,
+  confidenceThreshold: number,
+  message: string,
+  options: DetectOptions = {}
+): Promise<PPEDetectionResponse> {
+  const startedAt = performance.now();
+  const src = typeof image === "string" ? image : URL.createObjectURL(image);
+
+  try {
+    const img = await loadImage(src);
+    throwIfCancelled(options.signal);
+    const results: DetectionResult[] = rekognition.Persons.map((person, idx) =>
+      mapPersonToResult(
+        person,
+        idx,
+        renderPersonCrop(
+          img,
+          person,
+          options.thresholds || confidenceThreshold
+        )
+      )
+    );
+
+    return parseContract("/detect", PPEDetectionResponseSchema, {
+      success: true,
+      data: {
+        results,
+        processing_time:
+          Math.round((performance.now() - startedAt) / 10) / 100,
+        image_metadata: {
+          width: img.naturalWidth,
+          height: img.naturalHeight,
+          format: imageFormat(image),
+        },
+      },
+      message,
+    });
+  } finally {
+    if (typeof image !== "string") {
+      URL.revokeObjectURL(src);
+    }
+  }
+}
+
+function imageFormat(image: string | File): string {
+  const mimeType =
+    typeof image === "string"
+      ? image.match(/^data:([^;,]+)/)?.[1] || "image/jpeg"
+      : image.type;
+  return mimeType.replace("image/", "").replace("jpg", "jpeg");
+}
@@ -0,0 +1,62 @@
+// Detection provider that serves recorded AWS Rekognition responses.
+// Recordings are produced by the backend when REKOGNITION_RECORD_DIR is set
+// and copied into lib/fixtures/rekognition/.
+import { APIError, throwIfCancelled } from "../api-errors";
+import { readImageBytes } from "../image-utils";
+import { fingerprintImageBytes } from "../rekognition-mapping";
+import siteInspectionPair from "../fixtures/rekognition/site-inspection-pair.json";
+import undergroundMiner from "../fixtures/rekognition/underground-miner.json";
+import workerWithBoundingBoxes from "../fixtures/rekognition/worker-with-bb.json";
+import { buildOfflineResponse, OFFLINE_API_CONFIG } from "./offline";
+import type { DetectionProvider, RekognitionRecording } from "./types";
+
+export const REKOGNITION_RECORDINGS = [
+  siteInspectionPair,
+  undergroundMiner,
+  workerWithBoundingBoxes,
+] as RekognitionRecording[];
+
+export function createReplayProvider(
+  recordings: RekognitionRecording[] = REKOGNITION_RECORDINGS
+): DetectionProvider {
+  return {
+    name: "replay",
+    label: "Recorded Rekognition responses",
+    uploadsImages: false,
+
+    async detect(image, confidenceThreshold, options) {
+      throwIfCancelled(options?.signal);
+      const fingerprint = fingerprintImageBytes(await readImageBytes(image));
+      const fileName = typeof image === "string" ? undefined : image.name;
+      const recording =
+        recordings.find((candidate) => candidate.fingerprint === fingerprint) ||
+        recordings.find((candidate) => candidate.file === fileName);
+
+      if (!recording) {
+        throw new APIError(
+          `No recorded Rekognition response for this image (fingerprint ${fingerprint})`,
+          404
+        );
+      }
+
+      return buildOfflineResponse(
+        image,
+        recording.response,
+        confidenceThreshold,
+        `Replayed Rekognition response for ${recording.file}`,
+        options
+      );
+    },
+
+    async healthCheck() {
+      return {
+        status: "ok",
+        message: `Replaying ${recordings.length} recorded Rekognition responses`,
+      };
+    },
+
+    async getConfig() {
+      return OFFLINE_API_CONFIG;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// Detection provider abstraction used behind ppeAPI
+import type {
+  APIConfig,
+  HealthResponse,
+  PPEDetectionResponse,
+  ThresholdRules,
+} from "../api";
+
+export type DetectionProviderName = "http" | "mock" | "replay";
+
+// Per-call options accepted by every provider method
+export interface RequestOptions {
+  // Abort the request, e.g. when the user uploads a new image mid-request
+  signal?: AbortSignal;
+  // Overrides the provider's default timeout for this call
+  timeoutMs?: number;
+}
+
+export interface DetectOptions extends RequestOptions {
+  // Per-item threshold bands used to colour the equipment boxes in the crops
+  thresholds?: ThresholdRules;
+  // Resend the upload after a retryable failure. Off by default: callers
+  // that retry on their own, such as batches, leave it off so that only
+  // one layer retries.
+  retry?: boolean;
+}
+
+export interface DetectionProvider {
+  name: DetectionProviderName;
+  // Human readable description shown in the UI
+  label: string;
+  // Whether images are sent over the network, and so worth preprocessing
+  uploadsImages: boolean;
+  detect(
+    image: string | File,
+    confidenceThreshold: number,
+    options?: DetectOptions
+  ): Promise<PPEDetectionResponse>;
+  healthCheck(options?: RequestOptions): Promise<HealthResponse>;
+  getConfig(options?: RequestOptions): Promise<APIConfig>;
+}
+
+// Subset of the AWS Rekognition DetectProtectiveEquipment response that the
+// offline providers work with
+export interface RekognitionBoundingBox {
+  Width: number;
+  Height: number;
+  Left: number;
+  Top: number;
+}
+
+export interface RekognitionEquipmentDetection {
+  BoundingBox?: RekognitionBoundingBox;
+  Confidence: number;
+  Type: "FACE_COVER" | "HAND_COVER" | "HEAD_COVER";
+  CoversBodyPart?: { Confidence: number; Value: boolean };
+}
+
+export interface RekognitionBodyPart {
+  Name: "FACE" | "HEAD" | "LEFT_HAND" | "RIGHT_HAND";
+  Confidence: number;
+  EquipmentDetections: RekognitionEquipmentDetection[];
+}
+
+export interface RekognitionPerson {
+  Id: number;
+  Confidence: number;
+  BoundingBox: RekognitionBoundingBox;
+  BodyParts: RekognitionBodyPart[];
+}
+
+export interface RekognitionPPEResponse {
+  ProtectiveEquipmentModelVersion?: string;
+  Persons: RekognitionPerson[];
+  Summary?: {
+    PersonsWithRequiredEquipment: number[];
+    PersonsWithoutRequiredEquipment: number[];
+    PersonsIndeterminate: number[];
+  };
+}
+
+// A Rekognition response recorded against a known image
+export interface RekognitionRecording {
+  file: string;
+  fingerprint: string;
+  width: number;
+  height: number;
+  response: RekognitionPPEResponse;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { BoundingBox } from "./api";
+import { getFaceRegion, toCropRegions } from "./redaction";
+import { createPerson } from "./test-utils";
+
+function expectBox(actual: BoundingBox | null, expected: BoundingBox) {
+  expect(actual).not.toBeNull();
+  (Object.keys(expected) as (keyof BoundingBox)[]).forEach((key) =>
+    expect(actual![key]).toBeCloseTo(expected[key])
+  );
+}
+
+describe("getFaceRegion", () => {
+  it("takes the top of the person box without equipment boxes", () => {
+    const region = getFaceRegion(
+      createPerson({ x: 0.2, y: 0.1, width: 0.2, height: 0.8 })
+    );
+    expectBox(region, { x: 0.2, y: 0.1, width: 0.2, height: 0.2 });
+  });
+
+  it("places the face under a hard hat", () => {
+    const region = getFaceRegion(
+      createPerson(
+        { x: 0.2, y: 0.1, width: 0.2, height: 0.8 },
+        {
+          hardHat: {
+            status: "Detected",
+            confidence: 97,
+            equipmentBox: { x: 0.25, y: 0.1, width: 0.1, height: 0.06 },
+          },
+        }
+      )
+    );
+    expectBox(region, { x: 0.25, y: 0.13, width: 0.1, height: 0.09 });
+  });
+
+  it("extends a face mask up over the eyes", () => {
+    const region = getFaceRegion(
+      createPerson(undefined, {
+        faceMask: {
+          status: "Detected",
+          confidence: 97,
+          equipmentBox: { x: 0.5, y: 0.3, width: 0.1, height: 0.05 },
+        },
+      })
+    );
+    expectBox(region, { x: 0.48, y: 0.25, width: 0.14, height: 0.1 });
+  });
+
+  it("is null without a person box or equipment boxes", () => {
+    expect(getFaceRegion(createPerson(undefined))).toBeNull();
+  });
+});
+
+describe("toCropRegions", () => {
+  const crop = { x: 0.5, y: 0.5, width: 0.5, height: 0.5 };
+
+  it("maps regions onto the crop and clips them to it", () => {
+    const regions = toCropRegions(
+      [{ x: 0.4, y: 0.6, width: 0.2, height: 0.1 }],
+      crop
+    );
+    expect(regions).toHaveLength(1);
+    expectBox(regions[0], { x: 0, y: 0.2, width: 0.2, height: 0.2 });
+  });
+
+  it("leaves out regions outside the crop", () => {
+    expect(
+      toCropRegions([{ x: 0, y: 0, width: 0.3, height: 0.3 }], crop)
+    ).toEqual([]);
+  });
+});
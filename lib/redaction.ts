@@ -0,0 +1,257 @@
+// Privacy redaction for exports: the face of every person and any region a
+// reviewer drew are blurred or pixelated in the exported copies of the image
+// and of the person crops. Only copies are redacted; the original kept in
+// history is never changed.
+import { z } from "zod";
+import type { BoundingBox, DetectionResult } from "./api";
+import { loadImage } from "./image-utils";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import { readStored, writeStored } from "./storage";
+
+export type RedactionMode = "none" | "blur" | "pixelate";
+
+export const REDACTION_MODE_LABELS: Record<RedactionMode, string> = {
+  none: "No redaction",
+  blur: "Blur",
+  pixelate: "Pixelate",
+};
+
+// Exports that can be redacted, each with its own setting
+export type RedactionExport = "pdf" | "image" | "bundle";
+
+export const REDACTION_EXPORT_LABELS: Record<RedactionExport, string> = {
+  pdf: "PDF report",
+  image: "Image download",
+  bundle: "Shared bundle",
+};
+
+export type ExportRedaction = Record<RedactionExport, RedactionMode>;
+
+export const DEFAULT_EXPORT_REDACTION: ExportRedaction = {
+  pdf: "none",
+  image: "none",
+  bundle: "none",
+};
+
+export interface RedactionOptions {
+  mode: RedactionMode;
+  // Regions drawn by a reviewer, in image ratios, redacted on top of faces
+  regions?: BoundingBox[];
+}
+
+// Stored choices; an export with a missing or unknown mode gets its default
+const RedactionModeSchema = z.enum(["none", "blur", "pixelate"]);
+const ExportRedactionSchema = z.object({
+  pdf: RedactionModeSchema.catch(DEFAULT_EXPORT_REDACTION.pdf),
+  image: RedactionModeSchema.catch(DEFAULT_EXPORT_REDACTION.image),
+  bundle: RedactionModeSchema.catch(DEFAULT_EXPORT_REDACTION.bundle),
+});
+
+const STORAGE_KEY = "ppe-detection:export-redaction";
+
+// Blocks across the longer side of a pixelated region
+const PIXELATE_BLOCKS = 10;
+// Scale a blurred region is shrunk to before it is stretched back
+const BLUR_SCALE = 1 / 12;
+
+const FACE_ITEMS = SUPPORTED_PPE_ITEMS.filter(
+  (item) => item.bodyPart === "FACE"
+);
+const HEAD_ITEMS = SUPPORTED_PPE_ITEMS.filter(
+  (item) => item.bodyPart === "HEAD"
+);
+
+function clampBox(box: BoundingBox): BoundingBox {
+  const x = Math.max(0, box.x);
+  const y = Math.max(0, box.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(1, box.x + box.width) - x),
+    height: Math.max(0, Math.min(1, box.y + box.height) - y),
+  };
+}
+
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Where a person's face is, in image ratios. Face and head equipment boxes
+// place it best: a mask covers the lower face and the face sits under a hard
+// hat. Without them the top of the person box is taken, generously, since
+// missing a face is worse than blurring a shoulder.
+export function getFaceRegion(result: DetectionResult): BoundingBox | null {
+  const fromEquipment: BoundingBox[] = [];
+  FACE_ITEMS.forEach((item) => {
+    const box = result.ppe[item.id]?.equipmentBox;
+    if (box) {
+      fromEquipment.push({
+        x: box.x - box.width * 0.2,
+        y: box.y - box.height,
+        width: box.width * 1.4,
+        height: box.height * 2,
+      });
+    }
+  });
+  HEAD_ITEMS.forEach((item) => {
+    const box = result.ppe[item.id]?.equipmentBox;
+    if (box) {
+      fromEquipment.push({
+        x: box.x,
+        y: box.y + box.height * 0.5,
+        width: box.width,
+        height: box.height * 1.5,
+      });
+    }
+  });
+  if (fromEquipment.length > 0) return clampBox(unionBoxes(fromEquipment));
+
+  const person = result.boundingBox;
+  if (!person) return null;
+  return clampBox({
+    x: person.x,
+    y: person.y,
+    width: person.width,
+    height: person.height * 0.25,
+  });
+}
+
+// Faces of all the persons plus the drawn regions
+export function getRedactionRegions(
+  results: DetectionResult[],
+  drawn: BoundingBox[] = []
+): BoundingBox[] {
+  return [
+    ...results
+      .map(getFaceRegion)
+      .filter((region): region is BoundingBox => region !== null),
+    ...drawn,
+  ];
+}
+
+// Regions of the whole image as ratios of a crop of it, leaving out those
+// outside the crop
+export function toCropRegions(
+  regions: BoundingBox[],
+  crop: BoundingBox
+): BoundingBox[] {
+  if (crop.width === 0 || crop.height === 0) return [];
+  return regions
+    .map((region) =>
+      clampBox({
+        x: (region.x - crop.x) / crop.width,
+        y: (region.y - crop.y) / crop.height,
+        width: region.width / crop.width,
+        height: region.height / crop.height,
+      })
+    )
+    .filter((region) => region.width > 0 && region.height > 0);
+}
+
+// Shrink the region and stretch it back: with smoothing that blurs it,
+// without it leaves square blocks
+function obscureRegion(
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  mode: Exclude<RedactionMode, "none">
+) {
+  const scale =
+    mode === "pixelate"
+      ? PIXELATE_BLOCKS / Math.max(width, height)
+      : BLUR_SCALE;
+  const small = document.createElement("canvas");
+  small.width = Math.max(1, Math.round(width * scale));
+  small.height = Math.max(1, Math.round(height * scale));
+  const smallCtx = small.getContext("2d");
+  if (!smallCtx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  smallCtx.drawImage(
+    ctx.canvas,
+    left,
+    top,
+    width,
+    height,
+    0,
+    0,
+    small.width,
+    small.height
+  );
+  ctx.save();
+  ctx.imageSmoothingEnabled = mode === "blur";
+  ctx.drawImage(small, 0, 0, small.width, small.height, left, top, width, height);
+  ctx.restore();
+}
+
+// Copy of the image with the regions obscured, as a JPEG data URL. Returns
+// the image unchanged when there is nothing to redact.
+export async function redactImage(
+  src: string,
+  regions: BoundingBox[],
+  mode: RedactionMode
+): Promise<string> {
+  if (mode === "none" || regions.length === 0) return src;
+
+  const img = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  ctx.drawImage(img, 0, 0);
+
+  regions.forEach((region) => {
+    const left = Math.floor(region.x * canvas.width);
+    const top = Math.floor(region.y * canvas.height);
+    const width = Math.ceil(region.width * canvas.width);
+    const height = Math.ceil(region.height * canvas.height);
+    if (width > 0 && height > 0) {
+      obscureRegion(ctx, left, top, width, height, mode);
+    }
+  });
+  return canvas.toDataURL("image/jpeg", 0.92);
+}
+
+// Results whose crops have the regions obscured. A crop is the person's
+// box, so regions map onto it directly; a crop without a box is treated as
+// the whole person.
+export async function redactResultCrops(
+  results: DetectionResult[],
+  regions: BoundingBox[],
+  mode: RedactionMode
+): Promise<DetectionResult[]> {
+  if (mode === "none") return results;
+  return Promise.all(
+    results.map(async (result) => {
+      if (!result.image) return result;
+      const cropRegions = result.boundingBox
+        ? toCropRegions(regions, result.boundingBox)
+        : getRedactionRegions([
+            { ...result, boundingBox: { x: 0, y: 0, width: 1, height: 1 } },
+          ]);
+      return {
+        ...result,
+        image: await redactImage(result.image, cropRegions, mode),
+      };
+    })
+  );
+}
+
+export function loadExportRedaction(): ExportRedaction {
+  return (
+    readStored(STORAGE_KEY, ExportRedactionSchema) || DEFAULT_EXPORT_REDACTION
+  );
+}
+
+export function storeExportRedaction(redaction: ExportRedaction): void {
+  writeStored(STORAGE_KEY, redaction);
+}
@@ -0,0 +1,170 @@
+// Mapping from raw AWS Rekognition DetectProtectiveEquipment output to the
+// DetectionResult shape defined in detection-contract.js.
+//
+// Plain CommonJS so that the Express backend and the client-side replay/mock
+// detection providers turn a Rekognition person into exactly the same result.
+const { PPE_ITEMS } = require("./ppe-items");
+const {
+  findItemForEquipment,
+  getEquipmentBand,
+  getItemThreshold,
+  toThresholdRules,
+} = require("./threshold-rules");
+
+/**
+ * @typedef {import("zod").infer<typeof import("./detection-contract").DetectionResultSchema>} DetectionResult
+ * @typedef {import("zod").infer<typeof import("./detection-contract").PPEItemResultSchema>} PPEItemResult
+ */
+
+// Status of one equipment type on one body part (HEAD, FACE, LEFT_HAND,
+// RIGHT_HAND). Rekognition only lists body parts it could see, so a missing
+// body part is reported as "Not Visible" rather than "Not Detected".
+/** @returns {PPEItemResult} */
+function getEquipmentStatus(bodyParts, bodyPartName, type) {
+  const part = bodyParts.find((p) => p.Name === bodyPartName);
+  if (!part) {
+    return { status: "Not Visible", confidence: 0 };
+  }
+
+  const bodyPartConfidence = Math.round(part.Confidence);
+  const detection = (part.EquipmentDetections || []).find(
+    (eq) => eq.Type === type
+  );
+  if (!detection) {
+    return {
+      status: "Not Detected",
+      confidence: bodyPartConfidence,
+      bodyPartConfidence,
+    };
+  }
+
+  return {
+    status: "Detected",
+    confidence: Math.round(detection.Confidence),
+    bodyPartConfidence,
+    equipmentBox: detection.BoundingBox
+      ? toBoundingBox(detection.BoundingBox)
+      : undefined,
+    coversBodyPart: detection.CoversBodyPart
+      ? {
+          value: Boolean(detection.CoversBodyPart.Value),
+          confidence: Math.round(detection.CoversBodyPart.Confidence),
+        }
+      : undefined,
+  };
+}
+
+// Convert a Rekognition BoundingBox to the contract's ratio box
+function toBoundingBox(box) {
+  return {
+    x: box.Left,
+    y: box.Top,
+    width: box.Width,
+    height: box.Height,
+  };
+}
+
+// Build the DetectionResult for one Rekognition person. `image` is the URL of
+// the annotated crop produced for that person.
+/** @returns {DetectionResult} */
+function mapPersonToResult(person, index, image) {
+  const bodyParts = person.BodyParts || [];
+
+  return {
+    personId: index + 1,
+    confidence: Math.round(person.Confidence),
+    image,
+    boundingBox: toBoundingBox(person.BoundingBox),
+    ppe: Object.fromEntries(
+      PPE_ITEMS.map((item) => [
+        item.id,
+        item.supported
+          ? getEquipmentStatus(bodyParts, item.bodyPart, item.equipmentType)
+          : { status: "Not Supported", confidence: 0 },
+      ])
+    ),
+  };
+}
+
+// Draw equipment bounding boxes for one person onto a 2D canvas context that
+// holds the full image. Works with both node-canvas and the browser canvas.
+// `thresholds` are ThresholdRules (see threshold-rules.js) or a single
+// confidence threshold applied to every item.
+function drawEquipmentBoxes(ctx, person, imgWidth, imgHeight, thresholds) {
+  const rules = toThresholdRules(thresholds);
+
+  (person.BodyParts || []).forEach((bodyPart) => {
+    (bodyPart.EquipmentDetections || []).forEach((equipment) => {
+      if (!equipment.BoundingBox) {
+        return;
+      }
+
+      // Determine detection status from the item's threshold bands
+      const item = findItemForEquipment(bodyPart.Name, equipment.Type);
+      const status = getEquipmentBand(
+        Math.round(equipment.Confidence),
+        item ? getItemThreshold(rules, item.id) : rules.default
+      );
+
+      // Only draw bounding boxes for "Detected" and "Indeterminate" items
+      if (status === "Detected" || status === "Indeterminate") {
+        // Calculate equipment bounding box in full image coordinates
+        const eqX = equipment.BoundingBox.Left * imgWidth;
+        const eqY = equipment.BoundingBox.Top * imgHeight;
+        const eqWidth = equipment.BoundingBox.Width * imgWidth;
+        const eqHeight = equipment.BoundingBox.Height * imgHeight;
+
+        // Set color based on status: Green for Detected, Yellow for
+        // Indeterminate, Orange when the equipment does not cover the body part
+        const notCovering =
+          equipment.CoversBodyPart && !equipment.CoversBodyPart.Value;
+        const detectionColor = notCovering
+          ? "#FFA500"
+          : status === "Detected"
+          ? "#00FF00"
+          : "#FFFF00";
+        ctx.strokeStyle = detectionColor;
+        ctx.lineWidth = 3; // Slightly thicker for visibility
+        ctx.fillStyle = detectionColor + "20"; // Semi-transparent
+
+        ctx.fillRect(eqX, eqY, eqWidth, eqHeight);
+        ctx.strokeRect(eqX, eqY, eqWidth, eqHeight);
+      }
+    });
+  });
+}
+
+// Person crop rectangle in pixels, clamped to the image
+function getPersonCropRect(person, imgWidth, imgHeight) {
+  const left = Math.max(0, Math.floor(person.BoundingBox.Left * imgWidth));
+  const top = Math.max(0, Math.floor(person.BoundingBox.Top * imgHeight));
+  const width = Math.min(
+    imgWidth - left,
+    Math.floor(person.BoundingBox.Width * imgWidth)
+  );
+  const height = Math.min(
+    imgHeight - top,
+    Math.floor(person.BoundingBox.Height * imgHeight)
+  );
+  return { left, top, width: Math.max(1, width), height: Math.max(1, height) };
+}
+
+// Short FNV-1a fingerprint of the raw image bytes (Buffer or Uint8Array).
+// Used to match uploads against recorded Rekognition responses.
+function fingerprintImageBytes(bytes) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+module.exports = {
+  getEquipmentStatus,
+  mapPersonToResult,
+  toBoundingBox,
+  drawEquipmentBoxes,
+  getPersonCropRect,
+  fingerprintImageBytes,
+};
@@ -0,0 +1,138 @@
+// Site requirement profiles: which PPE items a site requires. Verdicts,
+// status colours and the PDF judge compliance against the selected profile.
+// Built-in profiles ship with the app; user profiles are kept in localStorage
+// and can be moved between machines as JSON.
+import { z } from "zod";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import { readStored, readStoredList, writeStored } from "./storage";
+
+export const PPERequirementSchema = z.enum([
+  "required",
+  "optional",
+  "not-applicable",
+]);
+
+export const RequirementProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  // Requirement by PPE item id; items left out are required
+  requirements: z.record(PPERequirementSchema).default({}),
+});
+
+export type PPERequirement = z.infer<typeof PPERequirementSchema>;
+
+export interface RequirementProfile {
+  name: string;
+  requirements: Record<string, PPERequirement>;
+  builtIn?: boolean;
+}
+
+export const PPE_REQUIREMENT_LABELS: Record<PPERequirement, string> = {
+  required: "Required",
+  optional: "Optional",
+  "not-applicable": "Not applicable",
+};
+
+export const DEFAULT_REQUIREMENT_PROFILE: RequirementProfile = {
+  name: "All items required",
+  requirements: {},
+  builtIn: true,
+};
+
+export const BUILT_IN_PROFILES: RequirementProfile[] = [
+  DEFAULT_REQUIREMENT_PROFILE,
+  {
+    name: "Civil site",
+    requirements: { faceMask: "not-applicable" },
+    builtIn: true,
+  },
+  {
+    name: "Paint shop",
+    requirements: Object.fromEntries(
+      SUPPORTED_PPE_ITEMS.map((item) => [item.id, "required"])
+    ),
+    builtIn: true,
+  },
+];
+
+const STORAGE_KEY = "ppe-detection:requirement-profiles";
+const SELECTED_KEY = "ppe-detection:requirement-profile";
+
+export function getRequirement(
+  profile: RequirementProfile,
+  itemId: string
+): PPERequirement {
+  return profile.requirements[itemId] || "required";
+}
+
+// Profiles from imported JSON: a single profile or an array of them. Throws
+// with a readable message when the JSON does not describe profiles.
+export function parseRequirementProfiles(json: string): RequirementProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const parsed = z
+    .array(RequirementProfileSchema)
+    .min(1)
+    .safeParse(Array.isArray(data) ? data : [data]);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Not a requirement profile: ${issue.path.join(".") || "root"} ${
+        issue.message
+      }`
+    );
+  }
+  return parsed.data;
+}
+
+export function exportRequirementProfiles(
+  profiles: RequirementProfile[]
+): string {
+  return JSON.stringify(
+    profiles.map(({ name, requirements }) => ({ name, requirements })),
+    null,
+    2
+  );
+}
+
+export function loadUserProfiles(): RequirementProfile[] {
+  return readStoredList(STORAGE_KEY, RequirementProfileSchema);
+}
+
+// Save (or replace by name) user profiles and return the updated list
+export function saveUserProfiles(
+  profiles: RequirementProfile[]
+): RequirementProfile[] {
+  const names = new Set(profiles.map((profile) => profile.name));
+  const saved = [
+    ...loadUserProfiles().filter((profile) => !names.has(profile.name)),
+    ...profiles.map(({ name, requirements }) => ({ name, requirements })),
+  ];
+  writeStored(STORAGE_KEY, saved);
+  return saved;
+}
+
+export function deleteUserProfile(name: string): RequirementProfile[] {
+  const saved = loadUserProfiles().filter((profile) => profile.name !== name);
+  writeStored(STORAGE_KEY, saved);
+  return saved;
+}
+
+// Profile selected in the previous session
+export function loadSelectedProfile(): RequirementProfile {
+  return (
+    readStored(SELECTED_KEY, RequirementProfileSchema) ||
+    DEFAULT_REQUIREMENT_PROFILE
+  );
+}
+
+export function storeSelectedProfile(profile: RequirementProfile): void {
+  writeStored(SELECTED_KEY, {
+    name: profile.name,
+    requirements: profile.requirements,
+  });
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  readStored,
+  readStoredList,
+  removeStored,
+  writeStored,
+} from "./storage";
+
+const PresetSchema = z.object({ name: z.string(), level: z.number() });
+
+describe("stored settings", () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = new Map();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads back what was written", () => {
+    writeStored("preset", { name: "Strict", level: 90 });
+    expect(readStored("preset", PresetSchema)).toEqual({
+      name: "Strict",
+      level: 90,
+    });
+    removeStored("preset");
+    expect(readStored("preset", PresetSchema)).toBeNull();
+  });
+
+  it("reads an entry that does not fit the schema as missing", () => {
+    items.set("preset", JSON.stringify({ name: "Strict", level: "high" }));
+    items.set("broken", "{name:");
+    expect(readStored("preset", PresetSchema)).toBeNull();
+    expect(readStored("broken", PresetSchema)).toBeNull();
+  });
+
+  it("skips list entries that do not fit the schema", () => {
+    items.set(
+      "presets",
+      JSON.stringify([{ name: "Strict", level: 90 }, { name: "Old" }])
+    );
+    expect(readStoredList("presets", PresetSchema)).toEqual([
+      { name: "Strict", level: 90 },
+    ]);
+    items.set("presets", JSON.stringify({ name: "Strict", level: 90 }));
+    expect(readStoredList("presets", PresetSchema)).toEqual([]);
+  });
+
+  it("finds nothing and drops writes when storage is unavailable", () => {
+    vi.stubGlobal("window", {});
+    expect(() =>
+      writeStored("preset", { name: "Strict", level: 90 })
+    ).not.toThrow();
+    expect(readStoredList("presets", PresetSchema)).toEqual([]);
+  });
+});
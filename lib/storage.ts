@@ -0,0 +1,44 @@
+// Settings kept in localStorage. What is read back is checked against a
+// schema, so an entry from an older version of the app, or edited by hand,
+// reads as missing. When storage is unavailable (private mode, SSR) reads
+// find nothing and writes are dropped: the settings last for this session
+// only.
+import { z } from "zod";
+
+type StoredSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Stored value, or null when there is none or it does not fit the schema
+export function readStored<T>(key: string, schema: StoredSchema<T>): T | null {
+  try {
+    const stored = window.localStorage.getItem(key);
+    if (!stored) return null;
+    const parsed = schema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Stored list, skipping any entry that no longer fits the schema
+export function readStoredList<T>(key: string, schema: StoredSchema<T>): T[] {
+  return (readStored(key, z.array(z.unknown())) || []).flatMap((entry) => {
+    const parsed = schema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function writeStored(key: string, value: unknown): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable
+  }
+}
+
+export function removeStored(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage unavailable
+  }
+}
@@ -0,0 +1,30 @@
+// Fixtures shared by the unit tests
+import type { BoundingBox, DetectionResult, PPEItemResult } from "./api";
+import { PPE_ITEMS } from "./ppe-items";
+
+// A detected person. Items not given in `ppe` are Detected when the model
+// supports them and Not Supported otherwise.
+export function createPerson(
+  boundingBox: BoundingBox | undefined,
+  ppe: Record<string, PPEItemResult> = {},
+  {
+    personId = 1,
+    confidence = 95,
+  }: { personId?: number; confidence?: number } = {}
+): DetectionResult {
+  return {
+    personId,
+    confidence,
+    image: "",
+    boundingBox,
+    ppe: Object.fromEntries(
+      PPE_ITEMS.map((item): [string, PPEItemResult] => [
+        item.id,
+        ppe[item.id] ??
+          (item.supported
+            ? { status: "Detected", confidence: 95 }
+            : { status: "Not Supported", confidence: 0 }),
+      ])
+    ),
+  };
+}
@@ -0,0 +1,71 @@
+// Named threshold presets. Built-in presets ship with the app; user presets
+// are kept in localStorage.
+import { z } from "zod";
+import type { ThresholdRules } from "./api";
+import { ThresholdRulesSchema } from "./detection-contract";
+import { readStoredList, writeStored } from "./storage";
+import {
+  createThresholdRules,
+  normalizeThresholdRules,
+} from "./threshold-rules";
+
+export interface ThresholdPreset {
+  name: string;
+  rules: ThresholdRules;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: ThresholdPreset[] = [
+  {
+    name: "Uniform 80%",
+    rules: createThresholdRules(80),
+    builtIn: true,
+  },
+  {
+    // Glove detections are systematically lower-confidence than helmets
+    name: "Glove tolerant",
+    rules: {
+      default: { detected: 80, indeterminate: 50 },
+      items: {
+        handProtectionL: { detected: 60, indeterminate: 35 },
+        handProtectionR: { detected: 60, indeterminate: 35 },
+      },
+    },
+    builtIn: true,
+  },
+  {
+    name: "Strict",
+    rules: createThresholdRules(90, 70),
+    builtIn: true,
+  },
+];
+
+const STORAGE_KEY = "ppe-detection:threshold-presets";
+
+const StoredPresetSchema = z.object({
+  name: z.string(),
+  rules: ThresholdRulesSchema,
+});
+
+export function loadUserPresets(): ThresholdPreset[] {
+  return readStoredList(STORAGE_KEY, StoredPresetSchema);
+}
+
+// Save (or replace) a user preset and return the updated list
+export function saveUserPreset(
+  name: string,
+  rules: ThresholdRules
+): ThresholdPreset[] {
+  const presets = [
+    ...loadUserPresets().filter((preset) => preset.name !== name),
+    { name, rules: normalizeThresholdRules(rules) },
+  ];
+  writeStored(STORAGE_KEY, presets);
+  return presets;
+}
+
+export function deleteUserPreset(name: string): ThresholdPreset[] {
+  const presets = loadUserPresets().filter((preset) => preset.name !== name);
+  writeStored(STORAGE_KEY, presets);
+  return presets;
+}
@@ -0,0 +1,100 @@
+// Per-item confidence thresholds with three status bands.
+//
+// Equipment found with confidence at or above an item's `detected` bound is
+// "Detected", between `indeterminate` and `detected` it is "Indeterminate",
+// and below `indeterminate` it is "Not Detected". Items without their own
+// rule use the default rule. Plain CommonJS so the Express backend colours
+// equipment boxes with exactly the same rules as the client.
+const { SUPPORTED_PPE_ITEMS } = require("./ppe-items");
+
+/**
+ * @typedef {object} ItemThreshold
+ * @property {number} detected Lower bound (%) for "Detected"
+ * @property {number} indeterminate Lower bound (%) for "Indeterminate"
+ *
+ * @typedef {object} ThresholdRules
+ * @property {ItemThreshold} default Rule for items without their own
+ * @property {Record<string, ItemThreshold>} items Rules by PPE item id
+ *
+ * @typedef {"Detected" | "Indeterminate" | "Not Detected"} EquipmentBand
+ */
+
+// Rules with one threshold for every item. An indeterminate bound of 0 keeps
+// every low-confidence detection "Indeterminate".
+/** @returns {ThresholdRules} */
+function createThresholdRules(detected = 80, indeterminate = 0) {
+  return {
+    default: { detected, indeterminate: Math.min(indeterminate, detected) },
+    items: {},
+  };
+}
+
+// Rule with the indeterminate bound no higher than the detected one. The
+// bounds are edited one at a time, so a stored rule may have them crossed
+// for a while; it is evaluated as if the indeterminate band were empty.
+/** @returns {ItemThreshold} */
+function normalizeItemThreshold(threshold) {
+  return {
+    detected: threshold.detected,
+    indeterminate: Math.min(threshold.indeterminate, threshold.detected),
+  };
+}
+
+// Rules with every rule normalised, as the contract expects them
+/** @returns {ThresholdRules} */
+function normalizeThresholdRules(rules) {
+  return {
+    default: normalizeItemThreshold(rules.default),
+    items: Object.fromEntries(
+      Object.entries(rules.items).map(([itemId, threshold]) => [
+        itemId,
+        normalizeItemThreshold(threshold),
+      ])
+    ),
+  };
+}
+
+// Rule in effect for one PPE item
+/** @returns {ItemThreshold} */
+function getItemThreshold(rules, itemId) {
+  return normalizeItemThreshold(rules.items[itemId] || rules.default);
+}
+
+// Status band for equipment detected with the given confidence
+/** @returns {EquipmentBand} */
+function getEquipmentBand(confidence, threshold) {
+  if (confidence >= threshold.detected) return "Detected";
+  if (confidence >= threshold.indeterminate) return "Indeterminate";
+  return "Not Detected";
+}
+
+// Accept a plain threshold where rules are expected (older callers)
+/** @returns {ThresholdRules} */
+function toThresholdRules(rulesOrThreshold) {
+  return typeof rulesOrThreshold === "number"
+    ? createThresholdRules(rulesOrThreshold)
+    : rulesOrThreshold;
+}
+
+// PPE item for a Rekognition equipment detection on a body part
+function findItemForEquipment(bodyPartName, equipmentType) {
+  return SUPPORTED_PPE_ITEMS.find(
+    (item) =>
+      item.bodyPart === bodyPartName && item.equipmentType === equipmentType
+  );
+}
+
+// Items whose rule differs from the default, for reports
+function getCustomisedItems(rules) {
+  return SUPPORTED_PPE_ITEMS.filter((item) => rules.items[item.id]);
+}
+
+module.exports = {
+  createThresholdRules,
+  normalizeThresholdRules,
+  getItemThreshold,
+  getEquipmentBand,
+  toThresholdRules,
+  findItemForEquipment,
+  getCustomisedItems,
+};
@@ -0,0 +1,78 @@
+// Client-side confidence threshold logic applied to detection results
+import type { DetectionResult, PPEStatus, ThresholdRules } from "./api";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+import { isManualResult } from "./manual-persons";
+import {
+  createThresholdRules,
+  getEquipmentBand,
+  getItemThreshold,
+} from "./threshold-rules";
+
+// Re-evaluate "Detected" items against each item's threshold bands: below
+// `detected` they become "Indeterminate", below `indeterminate` "Not
+// Detected". Returns new result objects; the input results are left
+// untouched. Statuses from the API do not depend on the threshold, so keep
+// the raw results and apply this again whenever the rules change. Persons
+// added by hand keep the statuses the reviewer set.
+export function applyThresholdRules(
+  results: DetectionResult[],
+  rules: ThresholdRules
+): DetectionResult[] {
+  return results.map((result) => {
+    if (isManualResult(result)) return result;
+    const ppe = { ...result.ppe };
+
+    SUPPORTED_PPE_ITEMS.forEach((ppeItem) => {
+      const item = ppe[ppeItem.id];
+      if (item && item.status === "Detected") {
+        ppe[ppeItem.id] = {
+          ...item,
+          status: getEquipmentBand(
+            item.confidence,
+            getItemThreshold(rules, ppeItem.id)
+          ),
+        };
+      }
+    });
+
+    return { ...result, ppe };
+  });
+}
+
+// Same threshold for every item, with every detection below it
+// "Indeterminate"
+export function applyConfidenceThreshold(
+  results: DetectionResult[],
+  threshold: number
+): DetectionResult[] {
+  return applyThresholdRules(results, createThresholdRules(threshold));
+}
+
+export interface StatusChange {
+  personId: number;
+  itemId: string;
+  from: PPEStatus;
+  to: PPEStatus;
+}
+
+// Items whose status differs between two evaluations of the same results,
+// e.g. at the threshold used for detection and at the current threshold
+export function getStatusChanges(
+  before: DetectionResult[],
+  after: DetectionResult[]
+): StatusChange[] {
+  const changes: StatusChange[] = [];
+  after.forEach((result) => {
+    const previous = before.find((p) => p.personId === result.personId);
+    if (!previous) return;
+
+    SUPPORTED_PPE_ITEMS.forEach((ppeItem) => {
+      const from = previous.ppe[ppeItem.id]?.status;
+      const to = result.ppe[ppeItem.id]?.status;
+      if (from && to && from !== to) {
+        changes.push({ personId: result.personId, itemId: ppeItem.id, from, to });
+      }
+    });
+  });
+  return changes;
+}
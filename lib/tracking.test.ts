@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { getItemResult, type BoundingBox, type PPEItemResult } from "./api";
+import { createPerson } from "./test-utils";
+import { aggregateTrack, trackPersons, type Track } from "./tracking";
+
+// A box of the usual person size with its top left corner at (x, y)
+function at(x: number, y = 0.3): BoundingBox {
+  return { x, y, width: 0.1, height: 0.4 };
+}
+
+describe("trackPersons", () => {
+  it("keeps two people crossing on their own tracks", () => {
+    // A walks right and B walks left; they pass each other in frame 3
+    const frames = [0.1, 0.2, 0.3, 0.4, 0.5].map((step) => [
+      createPerson(at(step, 0.3), {}, { personId: 1 }),
+      createPerson(at(0.6 - step, 0.32), {}, { personId: 2 }),
+    ]);
+
+    const { tracks, trackIds } = trackPersons(frames, {
+      maxCentroidDistance: 0.15,
+    });
+
+    expect(tracks).toHaveLength(2);
+    expect(trackIds).toEqual(frames.map(() => [1, 2]));
+    // Past the crossing each track follows its own direction
+    const [a, b] = tracks;
+    const lastX = (track: Track) =>
+      track.sightings[track.sightings.length - 1].result.boundingBox!.x;
+    expect(lastX(a)).toBeCloseTo(0.5);
+    expect(lastX(b)).toBeCloseTo(0.1);
+  });
+
+  it("bridges a person missing for maxGap frames", () => {
+    const frames = [[createPerson(at(0.2))], [], [], [createPerson(at(0.2))]];
+
+    const { tracks, trackIds } = trackPersons(frames, { maxGap: 2 });
+
+    expect(tracks).toHaveLength(1);
+    expect(trackIds).toEqual([[1], [], [], [1]]);
+  });
+
+  it("starts a new track after maxGap + 1 missing frames", () => {
+    const frames = [
+      [createPerson(at(0.2))],
+      [],
+      [],
+      [],
+      [createPerson(at(0.2))],
+    ];
+
+    const { tracks, trackIds } = trackPersons(frames, { maxGap: 2 });
+
+    expect(tracks).toHaveLength(2);
+    expect(trackIds).toEqual([[1], [], [], [], [2]]);
+  });
+
+  it("falls back to the centroid distance below minIoU", () => {
+    // Moved 0.08 to the right: IoU about 0.11, centroids 0.08 apart
+    const frames = [[createPerson(at(0.2))], [createPerson(at(0.28))]];
+
+    expect(trackPersons(frames, { minIoU: 0.3 }).tracks).toHaveLength(1);
+    expect(
+      trackPersons(frames, { minIoU: 0.3, maxCentroidDistance: 0.05 }).tracks
+    ).toHaveLength(2);
+  });
+
+  it("prefers an overlap match over a centroid match", () => {
+    // The newcomer's centroid is closer to the old box (0.07 against 0.09),
+    // but only the person who moved down overlaps it enough
+    const frames = [
+      [createPerson(at(0.2, 0.3))],
+      [
+        createPerson(at(0.2, 0.39), {}, { personId: 1 }),
+        createPerson(at(0.27, 0.3), {}, { personId: 2 }),
+      ],
+    ];
+
+    const { trackIds } = trackPersons(frames, { maxCentroidDistance: 0.1 });
+
+    expect(trackIds[1]).toEqual([1, 2]);
+  });
+
+  it("steps over frames that were not analysed", () => {
+    // Failed frames do not end the track, even past maxGap of them
+    const frames = [
+      [createPerson(at(0.2))],
+      null,
+      null,
+      [createPerson(at(0.2))],
+    ];
+
+    const { tracks, trackIds } = trackPersons(frames, { maxGap: 0 });
+
+    expect(tracks).toHaveLength(1);
+    expect(trackIds).toEqual([[1], [], [], [1]]);
+    expect(tracks[0].sightings.map(({ frameIndex }) => frameIndex)).toEqual([
+      0, 3,
+    ]);
+  });
+
+  it("gives each result without a box a track of its own", () => {
+    const boxless = { ...createPerson(at(0.2)), boundingBox: undefined };
+
+    const { tracks } = trackPersons([[boxless], [boxless]]);
+
+    expect(tracks).toHaveLength(2);
+  });
+});
+
+describe("aggregateTrack", () => {
+  const hat = (status: PPEItemResult["status"], confidence = 90) => ({
+    hardHat: { status, confidence },
+  });
+  const track = (sightings: Record<string, PPEItemResult>[]): Track => ({
+    id: 7,
+    sightings: sightings.map((ppe, frameIndex) => ({
+      frameIndex,
+      result: createPerson(at(0.2), ppe),
+    })),
+  });
+
+  it("takes the most frequent status under majority vote", () => {
+    const result = aggregateTrack(
+      track([hat("Detected"), hat("Not Detected"), hat("Detected")]),
+      "majority"
+    );
+
+    expect(result.personId).toBe(7);
+    expect(getItemResult(result, "hardHat").status).toBe("Detected");
+  });
+
+  it("breaks a majority tie towards the worse status", () => {
+    const result = aggregateTrack(
+      track([hat("Detected"), hat("Indeterminate")]),
+      "majority"
+    );
+
+    expect(getItemResult(result, "hardHat").status).toBe("Indeterminate");
+  });
+
+  it("keeps the most confident sighting of the winning status", () => {
+    const result = aggregateTrack(
+      track([hat("Detected", 81), hat("Detected", 97), hat("Not Detected")]),
+      "majority"
+    );
+
+    expect(getItemResult(result, "hardHat").confidence).toBe(97);
+  });
+
+  it("takes the worst status seen under worst case", () => {
+    const result = aggregateTrack(
+      track([hat("Detected"), hat("Detected"), hat("Indeterminate")]),
+      "worst-case"
+    );
+
+    expect(getItemResult(result, "hardHat").status).toBe("Indeterminate");
+  });
+
+  it("counts equipment held rather than worn as worst", () => {
+    const held = {
+      hardHat: {
+        status: "Detected" as const,
+        confidence: 92,
+        coversBodyPart: { value: false, confidence: 88 },
+      },
+    };
+
+    const result = aggregateTrack(
+      track([hat("Indeterminate"), held, hat("Detected")]),
+      "worst-case"
+    );
+
+    expect(getItemResult(result, "hardHat").coversBodyPart?.value).toBe(false);
+  });
+
+  it("breaks a worst-case tie by the higher confidence", () => {
+    const result = aggregateTrack(
+      track([hat("Not Detected", 70), hat("Not Detected", 85)]),
+      "worst-case"
+    );
+
+    expect(getItemResult(result, "hardHat").confidence).toBe(85);
+  });
+});
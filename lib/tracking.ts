@@ -0,0 +1,219 @@
+// Person tracking across sampled video frames. Boxes in consecutive frames
+// are matched by overlap (IoU), falling back to centroid distance for a
+// person who moved further than their own width, so someone who stays in
+// view is counted once rather than on every frame.
+import {
+  getItemResult,
+  isNotCovering,
+  type BoundingBox,
+  type DetectionResult,
+  type PPEItemResult,
+} from "./api";
+import { SUPPORTED_PPE_ITEMS } from "./ppe-items";
+
+// How the statuses a person had across frames become one status per item:
+// the most frequent one, or the worst one seen
+export type TrackPolicy = "majority" | "worst-case";
+
+export const TRACK_POLICY_LABELS: Record<TrackPolicy, string> = {
+  majority: "Majority vote",
+  "worst-case": "Worst case",
+};
+
+export interface TrackerOptions {
+  // Minimum overlap for two boxes to be the same person
+  minIoU?: number;
+  // Maximum centroid distance, as a ratio of the image size, when the boxes
+  // do not overlap enough
+  maxCentroidDistance?: number;
+  // Frames a person may be missing before their track ends
+  maxGap?: number;
+}
+
+export interface Sighting {
+  frameIndex: number;
+  result: DetectionResult;
+}
+
+export interface Track {
+  // Starts at 1, in order of first appearance
+  id: number;
+  sightings: Sighting[];
+}
+
+export interface TrackingResult {
+  tracks: Track[];
+  // Per frame, the track id of each result, in result order
+  trackIds: number[][];
+}
+
+export const DEFAULT_MIN_IOU = 0.3;
+export const DEFAULT_MAX_CENTROID_DISTANCE = 0.1;
+export const DEFAULT_MAX_GAP = 1;
+
+// Intersection over union of two boxes, 0 when they do not touch
+export function getIoU(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export function getCentroidDistance(a: BoundingBox, b: BoundingBox): number {
+  return Math.hypot(
+    a.x + a.width / 2 - (b.x + b.width / 2),
+    a.y + a.height / 2 - (b.y + b.height / 2)
+  );
+}
+
+// Score a candidate match, higher is better; null when the boxes are too far
+// apart to be the same person. Any IoU match beats any centroid match.
+function scoreMatch(
+  a: BoundingBox,
+  b: BoundingBox,
+  minIoU: number,
+  maxCentroidDistance: number
+): number | null {
+  const iou = getIoU(a, b);
+  if (iou >= minIoU) return 1 + iou;
+  const distance = getCentroidDistance(a, b);
+  return distance <= maxCentroidDistance
+    ? 1 - distance / maxCentroidDistance
+    : null;
+}
+
+// Assign a track id to every person of every frame. Each frame is matched
+// greedily, best score first, against the tracks seen within `maxGap` frames.
+// Results without a bounding box cannot be followed and get a track each. A
+// null frame was not analysed (the detection failed or was cancelled): it is
+// stepped over without counting towards the gap, and gets no track ids.
+export function trackPersons(
+  frames: (DetectionResult[] | null)[],
+  {
+    minIoU = DEFAULT_MIN_IOU,
+    maxCentroidDistance = DEFAULT_MAX_CENTROID_DISTANCE,
+    maxGap = DEFAULT_MAX_GAP,
+  }: TrackerOptions = {}
+): TrackingResult {
+  const tracks: Track[] = [];
+  // Last box of each track, with the number of analysed frames before it
+  const lastBoxes = new Map<number, { box: BoundingBox; analysed: number }>();
+  let analysed = 0;
+
+  const trackIds = frames.map((results, frameIndex) => {
+    if (!results) return [];
+    analysed++;
+    const active = tracks.filter((track) => {
+      const last = lastBoxes.get(track.id);
+      return last !== undefined && analysed - last.analysed <= maxGap + 1;
+    });
+
+    const candidates: { track: Track; index: number; score: number }[] = [];
+    results.forEach((result, index) => {
+      if (!result.boundingBox) return;
+      active.forEach((track) => {
+        const score = scoreMatch(
+          lastBoxes.get(track.id)!.box,
+          result.boundingBox!,
+          minIoU,
+          maxCentroidDistance
+        );
+        if (score !== null) candidates.push({ track, index, score });
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const ids: (number | undefined)[] = results.map(() => undefined);
+    const matchedTracks = new Set<number>();
+    candidates.forEach(({ track, index }) => {
+      if (ids[index] !== undefined || matchedTracks.has(track.id)) return;
+      ids[index] = track.id;
+      matchedTracks.add(track.id);
+    });
+
+    return results.map((result, index) => {
+      let track = tracks.find((candidate) => candidate.id === ids[index]);
+      if (!track) {
+        track = { id: tracks.length + 1, sightings: [] };
+        tracks.push(track);
+      }
+      track.sightings.push({ frameIndex, result });
+      if (result.boundingBox) {
+        lastBoxes.set(track.id, { box: result.boundingBox, analysed });
+      }
+      return track.id;
+    });
+  });
+
+  return { tracks, trackIds };
+}
+
+// Lower is worse for compliance; equipment that is held rather than worn
+// counts as not detected
+function getSeverity(item: PPEItemResult): number {
+  if (item.status === "Not Detected" || isNotCovering(item)) return 0;
+  if (item.status === "Indeterminate") return 1;
+  if (item.status === "Not Visible") return 2;
+  if (item.status === "Detected") return 3;
+  return 4;
+}
+
+// Worst first, then the most confident
+function compareItems(a: PPEItemResult, b: PPEItemResult): number {
+  return getSeverity(a) - getSeverity(b) || b.confidence - a.confidence;
+}
+
+function aggregateItem(
+  items: PPEItemResult[],
+  policy: TrackPolicy
+): PPEItemResult {
+  const sorted = [...items].sort(compareItems);
+  if (policy === "worst-case") return sorted[0];
+
+  // Majority vote on the status; a tie goes to the worse status
+  const counts = new Map<string, number>();
+  items.forEach((item) =>
+    counts.set(item.status, (counts.get(item.status) ?? 0) + 1)
+  );
+  const winner = sorted.reduce((best, item) =>
+    (counts.get(item.status) ?? 0) > (counts.get(best.status) ?? 0)
+      ? item
+      : best
+  );
+  return sorted.find((item) => item.status === winner.status) ?? winner;
+}
+
+// One result standing for the whole track: per-item statuses aggregated with
+// the policy, and the box and crop of the sighting with the largest box. The
+// person id is the track id.
+export function aggregateTrack(
+  track: Track,
+  policy: TrackPolicy = "majority"
+): DetectionResult {
+  const area = ({ result }: Sighting) =>
+    result.boundingBox
+      ? result.boundingBox.width * result.boundingBox.height
+      : 0;
+  const representative = track.sightings.reduce((best, sighting) =>
+    area(sighting) > area(best) ? sighting : best
+  ).result;
+
+  const ppe: DetectionResult["ppe"] = { ...representative.ppe };
+  SUPPORTED_PPE_ITEMS.forEach((item) => {
+    ppe[item.id] = aggregateItem(
+      track.sightings.map(({ result }) => getItemResult(result, item.id)),
+      policy
+    );
+  });
+
+  return {
+    ...representative,
+    personId: track.id,
+    confidence: Math.max(
+      ...track.sightings.map(({ result }) => result.confidence)
+    ),
+    ppe,
+  };
+}
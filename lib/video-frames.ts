@@ -0,0 +1,167 @@
+// Video analysis: decode a site video in the browser, sample still frames at
+// a fixed interval and rate each frame by how many of its persons comply
+import type { ImageVerdict } from "./compliance";
+import { captureVideoFrame } from "./image-preprocess";
+
+export const VIDEO_TYPES = ["video/mp4", "video/webm"];
+
+// Seconds between sampled frames
+export const DEFAULT_FRAME_INTERVAL = 2;
+// Upper bound on frames per video, so a long clip cannot queue hundreds of
+// detection calls; the interval is stretched to fit
+export const MAX_VIDEO_FRAMES = 120;
+
+export interface SampledFrame {
+  // Position in the video, in seconds
+  time: number;
+  file: File;
+}
+
+export interface SampleOptions {
+  interval?: number;
+  maxFrames?: number;
+  signal?: AbortSignal;
+  // Called after each frame with the number sampled so far and the total
+  onProgress?: (sampled: number, total: number) => void;
+}
+
+export function isVideoFile(file: File): boolean {
+  return (
+    VIDEO_TYPES.includes(file.type) || /\.(mp4|webm|m4v)$/i.test(file.name)
+  );
+}
+
+// Position in the video as m:ss, or h:mm:ss for long videos
+export function formatTimecode(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Times to sample: every `interval` seconds from the start, stretched so that
+// no more than `maxFrames` are taken
+export function getSampleTimes(
+  duration: number,
+  interval: number,
+  maxFrames: number
+): number[] {
+  if (!(duration > 0)) return [];
+  const step = Math.max(interval, duration / maxFrames);
+  const times: number[] = [];
+  for (let time = 0; time < duration && times.length < maxFrames; time += step) {
+    times.push(time);
+  }
+  return times;
+}
+
+function waitForEvent(
+  video: HTMLVideoElement,
+  event: "loadeddata" | "seeked",
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onDone);
+      video.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onDone = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(
+        new Error(
+          "This video could not be decoded. Use an MP4 (H.264) or WebM file."
+        )
+      );
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Frame sampling was cancelled", "AbortError"));
+    };
+    video.addEventListener(event, onDone);
+    video.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+// Decode the video with a hidden <video> element and capture a JPEG at each
+// sample time. Frames are named after the video and their position.
+export async function sampleVideoFrames(
+  file: File,
+  {
+    interval = DEFAULT_FRAME_INTERVAL,
+    maxFrames = MAX_VIDEO_FRAMES,
+    signal,
+    onProgress,
+  }: SampleOptions = {}
+): Promise<SampledFrame[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitForEvent(video, "loadeddata", signal);
+    video.src = url;
+    await loaded;
+
+    const baseName = file.name.replace(/\.[^.]+$/, "");
+    const times = getSampleTimes(video.duration, interval, maxFrames);
+    const frames: SampledFrame[] = [];
+    for (const time of times) {
+      const seeked = waitForEvent(video, "seeked", signal);
+      video.currentTime = time;
+      await seeked;
+      const stamp = formatTimecode(time).replace(/:/g, "-");
+      frames.push({
+        time,
+        file: await captureVideoFrame(video, `${baseName}-${stamp}.jpg`),
+      });
+      onProgress?.(frames.length, times.length);
+    }
+    return frames;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Share of persons in the frame who are compliant, or null for a frame with
+// nobody to assess
+export function getComplianceRate(imageVerdict: ImageVerdict): number | null {
+  return imageVerdict.total > 0
+    ? imageVerdict.compliant / imageVerdict.total
+    : null;
+}
+
+// Timeline colour for a frame's compliance rate
+export function getRateColor(rate: number | null): string {
+  if (rate === null) return "bg-gray-300";
+  if (rate === 1) return "bg-green-500";
+  if (rate >= 0.5) return "bg-amber-400";
+  return "bg-red-500";
+}
+
+// Indexes of the frames with the lowest compliance rate, worst first. Frames
+// with nobody in them are left out; ties go to the earlier frame.
+export function getWorstFrames(
+  rates: (number | null)[],
+  count: number
+): number[] {
+  return rates
+    .map((rate, index) => ({ rate, index }))
+    .filter(
+      (frame): frame is { rate: number; index: number } =>
+        frame.rate !== null && frame.rate < 1
+    )
+    .sort((a, b) => a.rate - b.rate || a.index - b.index)
+    .slice(0, count)
+    .map((frame) => frame.index);
+}
@@ -0,0 +1,126 @@
+// Named polygon areas of an image. Points are ratios of the image size, like
+// the bounding boxes in detection results. Persons standing in an exclusion
+// zone (public footpaths, neighbouring sites) are not assessed. Zone sets are
+// saved per camera or site in localStorage.
+import { z } from "zod";
+import type { BoundingBox, DetectionResult } from "./api";
+import { readStoredList, writeStored } from "./storage";
+
+export const ZonePointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+export const ZoneKindSchema = z.enum(["area", "exclusion"]);
+
+export const ZoneSchema = z.object({
+  name: z.string().trim().min(1),
+  kind: ZoneKindSchema.default("area"),
+  points: z.array(ZonePointSchema).min(3),
+});
+
+export const ZoneSetSchema = z.object({
+  name: z.string().trim().min(1),
+  zones: z.array(ZoneSchema),
+});
+
+export type ZonePoint = z.infer<typeof ZonePointSchema>;
+export type ZoneKind = z.infer<typeof ZoneKindSchema>;
+export type Zone = z.infer<typeof ZoneSchema>;
+export type ZoneSet = z.infer<typeof ZoneSetSchema>;
+
+// Outline colours on the image views
+export const ZONE_COLORS: Record<ZoneKind, string> = {
+  area: "#2563eb",
+  exclusion: "#dc2626",
+};
+
+// Ray casting: count the polygon edges a horizontal ray from the point crosses
+export function isPointInPolygon(point: ZonePoint, polygon: ZonePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Where a person stands: the bottom centre of their box
+export function getBoxAnchor(box: BoundingBox): ZonePoint {
+  return { x: box.x + box.width / 2, y: box.y + box.height };
+}
+
+// Zones a person stands in, in zone order
+export function findZonesForBox(box: BoundingBox, zones: Zone[]): Zone[] {
+  const anchor = getBoxAnchor(box);
+  return zones.filter((zone) => isPointInPolygon(anchor, zone.points));
+}
+
+// Names of the zones each person stands in, by person ID
+export function getZoneNamesByPerson(
+  results: DetectionResult[],
+  zones: Zone[]
+): Record<number, string[]> {
+  return Object.fromEntries(
+    results.map((result) => [
+      result.personId,
+      result.boundingBox
+        ? findZonesForBox(result.boundingBox, zones).map((zone) => zone.name)
+        : [],
+    ])
+  );
+}
+
+// Split off the persons standing in any exclusion zone
+export function excludePersonsInZones(
+  results: DetectionResult[],
+  zones: Zone[]
+): { kept: DetectionResult[]; excluded: DetectionResult[] } {
+  const exclusions = zones.filter((zone) => zone.kind === "exclusion");
+  const kept: DetectionResult[] = [];
+  const excluded: DetectionResult[] = [];
+  results.forEach((result) => {
+    const isExcluded =
+      result.boundingBox &&
+      findZonesForBox(result.boundingBox, exclusions).length > 0;
+    (isExcluded ? excluded : kept).push(result);
+  });
+  return { kept, excluded };
+}
+
+// Zones drawn on the image, plus the zones of a rule set not redrawn under
+// the same name
+export function mergeZones(drawn: Zone[], fallback: Zone[] = []): Zone[] {
+  return [
+    ...drawn,
+    ...fallback.filter((zone) => !drawn.some((d) => d.name === zone.name)),
+  ];
+}
+
+const STORAGE_KEY = "ppe-detection:zone-sets";
+
+export function loadZoneSets(): ZoneSet[] {
+  return readStoredList(STORAGE_KEY, ZoneSetSchema);
+}
+
+// Save (or replace) the zones of a camera or site and return the updated list
+export function saveZoneSet(name: string, zones: Zone[]): ZoneSet[] {
+  const zoneSets = [
+    ...loadZoneSets().filter((zoneSet) => zoneSet.name !== name),
+    { name, zones },
+  ];
+  writeStored(STORAGE_KEY, zoneSets);
+  return zoneSets;
+}
+
+export function deleteZoneSet(name: string): ZoneSet[] {
+  const zoneSets = loadZoneSets().filter((zoneSet) => zoneSet.name !== name);
+  writeStored(STORAGE_KEY, zoneSets);
+  return zoneSets;
+}
@@ -10,6 +10,19 @@ const sharp = require("sharp");
 const { createCanvas, loadImage } = require("canvas");
 const { v4: uuidv4 } = require("uuid");
 const path = require("path");
+const {
+  PPEDetectionRequestSchema,
+  PPEDetectionResponseSchema,
+  APIConfigSchema,
+} = require("../lib/detection-contract");
+const {
+  mapPersonToResult,
+  drawEquipmentBoxes,
+  getPersonCropRect,
+  fingerprintImageBytes,
+} = require("../lib/rekognition-mapping");
+const { getRequiredEquipmentTypes } = require("../lib/ppe-items");
+const { createThresholdRules } = require("../lib/threshold-rules");
 
 const app = express();
 const port = process.env.PORT || 8000; // Or any other desired port
@@ -45,6 +58,34 @@ const rekognitionClient = new RekognitionClient({
   region: process.env.AWS_REGION,
 });
 
+// Optional directory where raw Rekognition responses are recorded so they can
+// be served offline by the client's replay detection provider
+const recordDir = process.env.REKOGNITION_RECORD_DIR;
+
+function recordRekognitionResponse(file, imageBytes, imageMetadata, data) {
+  try {
+    fs.mkdirSync(recordDir, { recursive: true });
+    const fingerprint = fingerprintImageBytes(imageBytes);
+    const { $metadata, ...response } = data;
+    fs.writeFileSync(
+      path.join(recordDir, `${fingerprint}.json`),
+      JSON.stringify(
+        {
+          file: file.originalname,
+          fingerprint,
+          width: imageMetadata.width,
+          height: imageMetadata.height,
+          response,
+        },
+        null,
+        2
+      ) + "\n"
+    );
+  } catch (error) {
+    console.error("Error recording Rekognition response:", error);
+  }
+}
+
 // Function to clean up generated files
 function cleanupFiles(filePaths) {
   filePaths.forEach((filePath) => {
@@ -88,16 +129,13 @@ async function processPersonImage(
   person,
   imageMetadata,
   generatedFiles,
-  confidenceThreshold = 80
+  thresholds = createThresholdRules()
 ) {
   try {
     const { width: imgWidth, height: imgHeight } = imageMetadata;
 
     // Calculate crop coordinates for the person
-    const cropX = Math.floor(person.BoundingBox.Left * imgWidth);
-    const cropY = Math.floor(person.BoundingBox.Top * imgHeight);
-    const cropWidth = Math.floor(person.BoundingBox.Width * imgWidth);
-    const cropHeight = Math.floor(person.BoundingBox.Height * imgHeight);
+    const crop = getPersonCropRect(person, imgWidth, imgHeight);
 
     // Create canvas with full image size first
     const fullCanvas = createCanvas(imgWidth, imgHeight);
@@ -108,63 +146,14 @@ async function processPersonImage(
     fullCtx.drawImage(originalImg, 0, 0);
 
     // Draw equipment bounding boxes on the full image
-    if (person.BodyParts) {
-      person.BodyParts.forEach((bodyPart) => {
-        if (
-          bodyPart.EquipmentDetections &&
-          bodyPart.EquipmentDetections.length > 0
-        ) {
-          bodyPart.EquipmentDetections.forEach((equipment) => {
-            if (equipment.BoundingBox) {
-              // Determine detection status based on confidence threshold
-              const confidence = Math.round(equipment.Confidence);
-              let status = "Not Detected";
-
-              if (confidence >= confidenceThreshold) {
-                status = "Detected";
-              } else if (confidence > 0) {
-                status = "Indeterminate";
-              }
-
-              // Only draw bounding boxes for "Detected" and "Indeterminate" items
-              if (status === "Detected" || status === "Indeterminate") {
-                // Calculate equipment bounding box in full image coordinates
-                const eqX = equipment.BoundingBox.Left * imgWidth;
-                const eqY = equipment.BoundingBox.Top * imgHeight;
-                const eqWidth = equipment.BoundingBox.Width * imgWidth;
-                const eqHeight = equipment.BoundingBox.Height * imgHeight;
-
-                // Set color based on status: Green for Detected, Yellow for Indeterminate
-                const detectionColor =
-                  status === "Detected" ? "#00FF00" : "#FFFF00"; // Green or Yellow
-                fullCtx.strokeStyle = detectionColor;
-                fullCtx.lineWidth = 3; // Slightly thicker for visibility
-                fullCtx.fillStyle = detectionColor + "20"; // Semi-transparent
-
-                // Draw rectangle
-                fullCtx.fillRect(eqX, eqY, eqWidth, eqHeight);
-                fullCtx.strokeRect(eqX, eqY, eqWidth, eqHeight);
-              }
-            }
-          });
-        }
-      });
-
-      // Note: Only drawing bounding boxes for detected and indeterminate items
-      // Removed red indicators for missing PPE to keep visualization clean
-    }
+    drawEquipmentBoxes(fullCtx, person, imgWidth, imgHeight, thresholds);
 
     // Now crop the person region from the annotated full image
     const fullImageBuffer = fullCanvas.toBuffer("image/png");
 
     // Use sharp to crop the annotated image
     const croppedAnnotatedBuffer = await sharp(fullImageBuffer)
-      .extract({
-        left: cropX,
-        top: cropY,
-        width: cropWidth,
-        height: cropHeight,
-      })
+      .extract(crop)
       .png()
       .toBuffer();
 
@@ -211,9 +200,31 @@ app.get("/api/health", (req, res) => {
 // PPE Detection endpoint
 app.post("/api/detect", upload.single("image"), async (req, res) => {
   try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid request",
+        message: "An image file is required in the \"image\" field",
+      });
+    }
+
+    // Validate the non-file fields against the shared contract
+    const request = PPEDetectionRequestSchema.safeParse(req.body || {});
+    if (!request.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid request",
+        message: request.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; "),
+      });
+    }
+
     const imagePath = req.file.path;
     const imageBytes = fs.readFileSync(imagePath);
-    const confidenceThreshold = parseFloat(req.body.confidenceThreshold) || 80;
+    const confidenceThreshold = request.data.confidence_threshold;
+    const thresholds =
+      request.data.thresholds || createThresholdRules(confidenceThreshold);
 
     // Get image metadata using sharp
     const imageMetadata = await sharp(imagePath).metadata();
@@ -222,7 +233,7 @@ app.post("/api/detect", upload.single("image"), async (req, res) => {
       Image: { Bytes: imageBytes },
       SummarizationAttributes: {
         MinConfidence: confidenceThreshold,
-        RequiredEquipmentTypes: ["FACE_COVER", "HAND_COVER", "HEAD_COVER"],
+        RequiredEquipmentTypes: getRequiredEquipmentTypes(),
       },
     };
 
@@ -230,63 +241,31 @@ app.post("/api/detect", upload.single("image"), async (req, res) => {
       const command = new DetectProtectiveEquipmentCommand(params);
       const data = await rekognitionClient.send(command);
 
+      if (recordDir) {
+        recordRekognitionResponse(req.file, imageBytes, imageMetadata, data);
+      }
+
       // Process each person's image
       const generatedFiles = []; // Initialize array to track generated files
       const results = await Promise.all(
         (data.Persons || []).map(async (person, idx) => {
-          const bodyParts = person.BodyParts || [];
-
-          const getStatus = (type) => {
-            const part = bodyParts.find((p) =>
-              p.EquipmentDetections.some((eq) => eq.Type === type)
-            );
-            const detection =
-              part && part.EquipmentDetections.find((eq) => eq.Type === type);
-            return detection
-              ? {
-                  status: "Detected",
-                  confidence: Math.round(detection.Confidence),
-                }
-              : {
-                  status: "Not Detected",
-                  confidence: part ? Math.round(part.Confidence) : 0,
-                };
-          };
-
           // Generate cropped image with equipment bounding boxes
           const processedImageUrl = await processPersonImage(
             imagePath,
             person,
             imageMetadata,
             generatedFiles, // Pass generatedFiles array
-            confidenceThreshold // Pass confidence threshold for bounding box logic
+            thresholds // Per-item threshold bands for bounding box colours
           );
 
-          return {
-            personId: idx + 1,
-            confidence: Math.round(person.Confidence),
-            image: processedImageUrl,
-            boundingBox: {
-              x: person.BoundingBox.Left,
-              y: person.BoundingBox.Top,
-              width: person.BoundingBox.Width,
-              height: person.BoundingBox.Height,
-            },
-            hardHat: getStatus("HEAD_COVER"),
-            faceMask: getStatus("FACE_COVER"),
-            handProtectionL: getStatus("HAND_COVER"),
-            handProtectionR: getStatus("HAND_COVER"),
-            // Note: AWS Rekognition does not detect safety vests, boots, or other specialized PPE
-            // For these items, consider using Amazon Rekognition Custom Labels
-            safetyVest: { status: "Not Supported", confidence: 0 },
-            boots: { status: "Not Supported", confidence: 0 },
-          };
+          return mapPersonToResult(person, idx, processedImageUrl);
         })
       );
 
       // fs.unlinkSync(imagePath); // cleanup temp file
 
-      res.json({
+      // Make sure we never send a payload the client contract would reject
+      const response = PPEDetectionResponseSchema.safeParse({
         success: true,
         data: {
           results,
@@ -299,6 +278,16 @@ app.post("/api/detect", upload.single("image"), async (req, res) => {
         },
         message: "PPE detection completed successfully",
       });
+      if (!response.success) {
+        console.error("Detection response failed validation:", response.error);
+        return res.status(500).json({
+          success: false,
+          error: "Detection response failed validation",
+          message: response.error.message,
+        });
+      }
+
+      res.json(response.data);
 
       // Clean up generated files after a delay to allow frontend to load images
       setTimeout(() => {
@@ -325,12 +314,14 @@ app.post("/api/detect", upload.single("image"), async (req, res) => {
 
 // API configuration endpoint
 app.get("/api/config", (req, res) => {
-  res.json({
-    supported_formats: ["image/jpeg", "image/jpg", "image/png"],
-    max_file_size: 10485760, // 10MB in bytes
-    max_persons_per_image: 10,
-    confidence_range: { min: 0, max: 100 },
-  });
+  res.json(
+    APIConfigSchema.parse({
+      supported_formats: ["image/jpeg", "image/jpg", "image/png"],
+      max_file_size: 10485760, // 10MB in bytes
+      max_persons_per_image: 10,
+      confidence_range: { min: 0, max: 100, step: 5 },
+    })
+  );
 });
 
 // Manual cleanup endpoint (for debugging/admin purposes)